@@ -4,16 +4,135 @@ import './App.css';
 import YouTubePlayer from './components/YouTubePlayer';
 import VideoInput from './components/VideoInput';
 import Playlist from './components/Playlist';
-import { Video } from './types.ts';
-import { fetchVideoInfo } from './utils/youtubeUtils';
+import PlaylistSwitcher from './components/PlaylistSwitcher';
+import ImportExport from './components/ImportExport';
+import ImportDialog from './components/ImportDialog';
+import KeyboardShortcutsDialog from './components/KeyboardShortcutsDialog';
+import SettingsPanel from './components/SettingsPanel';
+import PlayQueue, { QueueItem } from './components/PlayQueue';
+import RecentlyPlayed from './components/RecentlyPlayed';
+import SleepTimerPanel from './components/SleepTimerPanel';
+import { AutoPlayMode, SavedPlaylist, Segment, SpeedTrainer, Video } from './types.ts';
+import {
+  UNKNOWN_TITLE,
+  VideoInfo,
+  fetchVideoInfo,
+  fetchVideoInfoBatch,
+  getVideoTitle,
+  lookupVideoInfo,
+  needsVideoInfo
+} from './utils/youtubeUtils';
+import { parseYouTubeUrl } from './utils/youtubeUrlUtils';
+import { BulkLine } from './utils/bulkAddUtils';
+import {
+  HELP_KEY,
+  Keymap,
+  applyBindings,
+  getShortcutAction,
+  isTypingTarget,
+  loadKeymap,
+  saveKeymap
+} from './utils/keymapUtils';
+import { getNextPlaybackRate } from './utils/speedUtils';
+import { AppSettings, loadSettings, saveSettings } from './utils/settingsUtils';
+import {
+  VolumeSettings,
+  getEntryVolume,
+  getMasterVolume,
+  loadVolumeSettings,
+  saveVolumeSettings
+} from './utils/volumeUtils';
+import { clearMediaMetadata, setMediaActionHandlers, setMediaMetadata } from './utils/mediaSessionUtils';
+import { createSegment, getActiveSegment, getDefaultSegmentName, getSegmentsPlayTime } from './utils/segmentUtils';
+import {
+  createPlaylist,
+  duplicatePlaylist,
+  loadPlaylists,
+  moveItem,
+  savePlaylists
+} from './utils/playlistUtils';
+import { PlayerErrorInfo } from './utils/playerErrorUtils';
+import { AUTO_PLAY_MODES, createShuffleOrder, getUpcomingVideos, syncShuffleOrder } from './utils/autoPlayUtils';
+import {
+  HistoryEntry,
+  RECENTLY_PLAYED_COUNT,
+  addHistoryEntry,
+  findHistoryTarget,
+  loadHistory,
+  saveHistory
+} from './utils/historyUtils';
+import { SLEEP_FADE_SECONDS, SleepTimer, describeSleepTimer, getSleepPoint } from './utils/sleepTimerUtils';
+import { applyImport, downloadExport, ImportMode, ImportPreview, ImportedSettings } from './utils/exportUtils';
+import { buildPlaylistLink, clearShareHash, copyToClipboard, decodePlaylistLink, parseShareHash } from './utils/shareUtils';
 import { truncateText } from './utils/stringUtils';
 import { registerServiceWorker, startVideoTimer, stopTimer, checkTimers } from './utils/serviceWorkerUtils';
 
 function App() {
-  const [videos, setVideos] = useState<Video[]>([]);
-  const [currentVideo, setCurrentVideo] = useState<Video | null>(null);
+  // Named playlists, each with its own videos, current video and auto play setting
+  const [playlistState, setPlaylistState] = useState(loadPlaylists);
+  const { playlists, activePlaylistId } = playlistState;
+  const activePlaylist = playlists.find(playlist => playlist.id === activePlaylistId) || playlists[0];
+  const videos = activePlaylist.videos;
+  const currentVideo = videos.find(video => video.id === activePlaylist.currentVideoId) || null;
+  const autoPlayEnabled = activePlaylist.autoPlayEnabled;
+  const autoPlayMode = activePlaylist.autoPlayMode;
+
+  // Shuffle order for this session, kept in step with the active playlist's entries
+  const shuffleKey = `${activePlaylist.id}|${videos.map(video => video.id).sort().join(',')}`;
+  const [shuffleState, setShuffleState] = useState(() => ({
+    key: shuffleKey,
+    playlistId: activePlaylist.id,
+    order: createShuffleOrder(videos, currentVideo?.id)
+  }));
+  if (shuffleState.key !== shuffleKey) {
+    setShuffleState({
+      key: shuffleKey,
+      playlistId: activePlaylist.id,
+      order: shuffleState.playlistId === activePlaylist.id
+        ? syncShuffleOrder(shuffleState.order, videos)
+        : createShuffleOrder(videos, currentVideo?.id)
+    });
+  }
+  const shuffleOrder = shuffleState.order;
+
+  // Entries to play before auto play resumes the playlist order. Not saved; entries no longer
+  // in the active playlist drop out
+  const [queue, setQueue] = useState<{ id: string; entryId: string }[]>([]);
+  const queueItems: QueueItem[] = queue.flatMap(({ id, entryId }) => {
+    const video = videos.find(v => v.id === entryId);
+    return video ? [{ id, video }] : [];
+  });
+  const setQueueItems = (items: QueueItem[]) => {
+    setQueue(items.map(({ id, video }) => ({ id, entryId: video.id })));
+  };
+  // The playlist entry that was playing when the queue took over, so auto play carries on
+  // after it once the queue is drained rather than after the last queued entry
+  const [queueResumeId, setQueueResumeId] = useState<string | null>(null);
+  const playlistPositionId = queueResumeId && videos.some(video => video.id === queueResumeId)
+    ? queueResumeId
+    : currentVideo?.id ?? null;
+
+  // Loops played, newest first, and how far Previous has stepped back into them (0 = not at all)
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+  const [historyIndex, setHistoryIndex] = useState(0);
+
+  // Bumped on every play request, so the player restarts an entry that is already loaded
+  const [playRequest, setPlayRequest] = useState(0);
+
+  const [currentSegmentId, setCurrentSegmentId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [autoPlayEnabled, setAutoPlayEnabled] = useState(false);
+  // Import waiting for the user to choose merge or replace
+  const [pendingImport, setPendingImport] = useState<{ preview: ImportPreview; title: string } | null>(null);
+  // App-wide preferences such as the default repeat count
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  // Master volume and mute, shared by all entries and remembered across sessions
+  const [volumeSettings, setVolumeSettings] = useState<VolumeSettings>(loadVolumeSettings);
+  // Sleep timer for this session, and the time it counts down against
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // User-remappable keyboard shortcuts, and whether their help is open
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [showShortcuts, setShowShortcuts] = useState(false);
   const [layout, setLayout] = useState(window.innerWidth <= 768 ? 'mobile' : 'desktop');
   
   // Use a ref for isMobile state to avoid causing unnecessary player re-renders
@@ -36,83 +155,48 @@ function App() {
     initServiceWorker().catch(console.error);
   }, []);
 
-  // Listen for timer complete events from the service worker
   useEffect(() => {
-    const handleTimerComplete = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      console.log('Timer complete event received:', customEvent.detail);
-      
-      // Handle different message types
-      if (customEvent.detail.type === 'TIMER_COMPLETE') {
-        const { videoId } = customEvent.detail;
-        
-        // Verify this is for the current video
-        if (currentVideo && currentVideo.videoId === videoId) {
-          console.log('Service worker timer completed for current video, advancing');
-          handleVideoEnd();
-        }
-      }
-      else if (customEvent.detail.type === 'TIMERS_COMPLETED') {
-        const { timers } = customEvent.detail;
-        
-        // Check if any completed timer matches the current video
-        if (currentVideo && timers.some((timer: any) => timer.videoId === currentVideo.videoId)) {
-          console.log('Service worker reports timers completed for current video, advancing');
-          handleVideoEnd();
-        }
-      }
-    };
-    
-    // Add event listener
-    window.addEventListener('sw-timer-complete', handleTimerComplete);
-    
-    // Set up periodic checks for timers when using service worker
-    let checkInterval: NodeJS.Timeout | null = null;
-    if (swAvailable) {
-      checkInterval = setInterval(() => {
-        checkTimers();
-      }, 10000); // Check every 10 seconds
-    }
-    
-    return () => {
-      window.removeEventListener('sw-timer-complete', handleTimerComplete);
-      if (checkInterval) clearInterval(checkInterval);
-    };
-  }, [swAvailable, currentVideo]);
+    savePlaylists(playlists, activePlaylistId);
+  }, [playlists, activePlaylistId]);
 
   useEffect(() => {
-    const savedVideos = localStorage.getItem('videos');
-    const savedAutoPlay = localStorage.getItem('autoPlayEnabled');
-    
-    if (savedVideos) {
-      try {
-        const parsedVideos = JSON.parse(savedVideos);
-        setVideos(parsedVideos);
-        if (parsedVideos.length > 0 && !currentVideo) {
-          setCurrentVideo(parsedVideos[0]);
-        }
-      } catch (e) {
-        console.error('Failed to parse saved videos:', e);
-        localStorage.removeItem('videos');
-      }
-    }
-    
-    if (savedAutoPlay) {
-      try {
-        setAutoPlayEnabled(JSON.parse(savedAutoPlay));
-      } catch (e) {
-        console.error('Failed to parse auto play setting:', e);
-      }
-    }
-  }, []);
+    saveHistory(history);
+  }, [history]);
 
+  // Tick once a second while a timed sleep timer counts down
+  const sleepEndsAt = sleepTimer?.endsAt ?? null;
   useEffect(() => {
-    localStorage.setItem('videos', JSON.stringify(videos));
-  }, [videos]);
-  
-  useEffect(() => {
-    localStorage.setItem('autoPlayEnabled', JSON.stringify(autoPlayEnabled));
-  }, [autoPlayEnabled]);
+    if (sleepEndsAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sleepEndsAt]);
+
+  // Apply a change to the active playlist
+  const updateActivePlaylist = (update: (playlist: SavedPlaylist) => SavedPlaylist) => {
+    setPlaylistState(prev => ({
+      ...prev,
+      playlists: prev.playlists.map(playlist => playlist.id === activePlaylist.id ? update(playlist) : playlist)
+    }));
+  };
+
+  const setVideos = (update: Video[] | ((prev: Video[]) => Video[])) => {
+    updateActivePlaylist(playlist => ({
+      ...playlist,
+      videos: typeof update === 'function' ? update(playlist.videos) : update
+    }));
+  };
+
+  const setCurrentVideo = (video: Video | null) => {
+    updateActivePlaylist(playlist => ({ ...playlist, currentVideoId: video ? video.id : null }));
+  };
+
+  const setAutoPlayEnabled = (enabled: boolean) => {
+    updateActivePlaylist(playlist => ({ ...playlist, autoPlayEnabled: enabled }));
+  };
+
+  const setAutoPlayMode = (mode: AutoPlayMode) => {
+    updateActivePlaylist(playlist => ({ ...playlist, autoPlayMode: mode }));
+  };
 
   // Add window resize listener to handle layout changes
   useEffect(() => {
@@ -143,6 +227,17 @@ function App() {
     };
   }, []);
 
+  // Whether the current entry ends a pass through the playlist, for the sleep timer
+  const isLastOfPass = !!currentVideo && queueItems.length === 0 && (
+    autoPlayMode === 'repeatOne' ||
+    getUpcomingVideos(videos, playlistPositionId, autoPlayMode === 'shuffle' ? 'shuffle' : 'once', shuffleOrder).length === 0
+  );
+  const sleepAt = getSleepPoint(sleepTimer, now, isLastOfPass);
+  // With no player to stop, a timed sleep timer simply runs out
+  if (sleepAt === 'now' && !currentVideo) {
+    setSleepTimer(null);
+  }
+
   // Set up background timer with service worker when video or autoplay changes
   useEffect(() => {
     // Clean up any existing timer
@@ -151,14 +246,31 @@ function App() {
       setBackgroundPlayTimerId(null);
     }
     
-    // Only set up the timer if we have auto play enabled, a current video with end time, service worker is available
-    if (autoPlayEnabled && currentVideo && currentVideo.endTime && videos.length > 0 && swAvailable) {
+    // The video ends once the current segment and every segment after it have played all
+    // their repetitions. The current segment may be partway through them, so this errs late;
+    // a speed trainer is counted at its slowest rate for the same reason
+    const currentSegmentIndex = currentVideo
+      ? Math.max(0, currentVideo.segments.findIndex(segment => segment.id === currentSegmentId))
+      : 0;
+    const playbackRate = currentVideo?.speedTrainer
+      ? Math.min(currentVideo.speedTrainer.startRate, currentVideo.speedTrainer.targetRate)
+      : currentVideo?.playbackRate ?? 1;
+    // A sleep timer stopping at the end of this loop cuts it short at that point
+    const videoDuration = currentVideo
+      ? sleepAt === 'loopEnd'
+        ? getSegmentsPlayTime([currentVideo.segments[currentSegmentIndex]], currentVideo.duration, 1, playbackRate, settings)
+        : getSegmentsPlayTime(
+          currentVideo.segments.slice(currentSegmentIndex),
+          currentVideo.duration,
+          currentVideo.repeatCount ?? settings.defaultRepeatCount,
+          playbackRate,
+          settings
+        )
+      : null;
+
+    // Only set up the timer if we have auto play enabled, a current video with end times, service worker is available
+    if (autoPlayEnabled && currentVideo && videoDuration && videos.length > 0 && swAvailable) {
       try {
-        // Calculate when this video should end
-        const videoStartTime = currentVideo.startTime || 0;
-        const videoEndTime = currentVideo.endTime;
-        const videoDuration = videoEndTime - videoStartTime;
-        
         // Add 1 second buffer
         const durationMs = videoDuration * 1000 + 1000;
         
@@ -173,7 +285,7 @@ function App() {
         console.error('Error setting up service worker timer:', error);
       }
     }
-  }, [autoPlayEnabled, currentVideo, videos, swAvailable]);
+  }, [autoPlayEnabled, currentVideo, currentSegmentId, videos, swAvailable, settings, sleepAt]);
   
   // Visibility change handler to check with service worker
   useEffect(() => {
@@ -191,13 +303,14 @@ function App() {
     };
   }, [swAvailable]);
 
-  const handleAddVideo = async (videoUrl: string, startTime: number | null, endTime: number | null) => {
-    // Extract video ID from YouTube URL
-    const videoId = extractVideoId(videoUrl);
-    if (!videoId) {
-      alert('Invalid YouTube URL');
-      return;
+  const handleAddVideo = async (videoUrl: string, startTime: number | null, endTime: number | null): Promise<Video | null> => {
+    // Extract video ID from YouTube URL. VideoInput has already shown any error to the user
+    const parsedUrl = parseYouTubeUrl(videoUrl);
+    if (!parsedUrl.ok) {
+      console.warn('App - Not adding video:', parsedUrl.error);
+      return null;
     }
+    const { videoId } = parsedUrl;
 
     console.log('App - Adding video with times:', { startTime, endTime });
     
@@ -211,8 +324,9 @@ function App() {
         videoId,
         url: videoUrl,
         title: videoInfo.title,
-        startTime,
-        endTime,
+        author: videoInfo.author,
+        thumbnailUrl: videoInfo.thumbnailUrl,
+        segments: [createSegment(startTime, endTime)],
       };
 
       console.log('App - Created new video object:', newVideo);
@@ -221,6 +335,7 @@ function App() {
       if (!currentVideo) {
         setCurrentVideo(newVideo);
       }
+      return newVideo;
     } catch (error) {
       console.error('Error adding video:', error);
       
@@ -229,9 +344,8 @@ function App() {
         id: uuidv4(),
         videoId,
         url: videoUrl,
-        title: 'Unknown Title',
-        startTime,
-        endTime,
+        title: UNKNOWN_TITLE,
+        segments: [createSegment(startTime, endTime)],
       };
 
       console.log('App - Created fallback video object:', newVideo);
@@ -240,23 +354,207 @@ function App() {
       if (!currentVideo) {
         setCurrentVideo(newVideo);
       }
+      return newVideo;
     } finally {
       setLoading(false);
     }
   };
 
+  // Add every line from a bulk paste, fetching details for each. A custom title is kept
+  const handleAddVideos = async (lines: BulkLine[]) => {
+    const entries = lines.filter((line): line is BulkLine & { videoId: string } => !!line.videoId);
+    if (entries.length === 0) return;
+
+    setLoading(true);
+    try {
+      const fetchedInfo = await fetchVideoInfoBatch(entries.map(line => line.videoId));
+
+      const newVideos: Video[] = entries.map((line, index) => ({
+        id: uuidv4(),
+        videoId: line.videoId,
+        url: line.url,
+        title: fetchedInfo[index].title,
+        customTitle: line.title || undefined,
+        author: fetchedInfo[index].author,
+        thumbnailUrl: fetchedInfo[index].thumbnailUrl,
+        segments: [createSegment(line.startTime, line.endTime)],
+      }));
+
+      console.log('App - Adding videos from bulk paste:', newVideos);
+
+      setVideos(prev => [...prev, ...newVideos]);
+      if (!currentVideo) {
+        setCurrentVideo(newVideos[0]);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Open a share link from the URL fragment: play a loop, or offer to import a playlist
+  const openShareLink = async (hash: string) => {
+    const link = parseShareHash(hash);
+    if (!link) return;
+
+    // Clear the fragment first so a reload doesn't open the link again
+    clearShareHash();
+
+    if (link.type === 'playlist') {
+      try {
+        setPendingImport({ preview: await decodePlaylistLink(link.data), title: 'Shared Playlist' });
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Failed to open the playlist link');
+      }
+      return;
+    }
+
+    // Play the loop if it is already in the playlist, otherwise add it
+    for (const video of videos) {
+      if (video.videoId !== link.videoId) continue;
+      const segment = video.segments.find(s => s.startTime === link.startTime && s.endTime === link.endTime);
+      if (segment) {
+        handlePlayVideo(video, segment.id);
+        return;
+      }
+    }
+
+    const newVideo = await handleAddVideo(`https://www.youtube.com/watch?v=${link.videoId}`, link.startTime, link.endTime);
+    if (newVideo) {
+      handlePlayVideo(newVideo);
+    }
+  };
+
+  // Keep the hash listener calling the latest handler without re-subscribing
+  const openShareLinkRef = useRef(openShareLink);
+  useEffect(() => {
+    openShareLinkRef.current = openShareLink;
+  });
+
+  // Open share links on load and when the fragment changes
+  useEffect(() => {
+    const handleHashChange = () => {
+      openShareLinkRef.current(window.location.hash).catch(console.error);
+    };
+
+    handleHashChange();
+    window.addEventListener('hashchange', handleHashChange);
+
+    return () => {
+      window.removeEventListener('hashchange', handleHashChange);
+    };
+  }, []);
+
+  // Retry details for entries added while YouTube couldn't be reached. Only the title from
+  // YouTube is filled in; a custom label stays as it is
+  const refreshingInfoRef = useRef(false);
+  const refreshMissingInfo = async () => {
+    if (refreshingInfoRef.current || !navigator.onLine) return;
+
+    const videoIds = [...new Set(
+      playlists.flatMap(playlist => playlist.videos).filter(needsVideoInfo).map(video => video.videoId)
+    )];
+    if (videoIds.length === 0) return;
+
+    refreshingInfoRef.current = true;
+    try {
+      const found = new Map<string, VideoInfo>();
+      for (const videoId of videoIds) {
+        const info = await lookupVideoInfo(videoId);
+        if (info) found.set(videoId, info);
+      }
+      if (found.size === 0) return;
+
+      console.log(`App - Refreshed details for ${found.size} of ${videoIds.length} videos`);
+      setPlaylistState(prev => ({
+        ...prev,
+        playlists: prev.playlists.map(playlist => ({
+          ...playlist,
+          videos: playlist.videos.map(video => {
+            const info = found.get(video.videoId);
+            return info && needsVideoInfo(video)
+              ? { ...video, title: info.title, author: info.author, thumbnailUrl: info.thumbnailUrl }
+              : video;
+          })
+        }))
+      }));
+    } finally {
+      refreshingInfoRef.current = false;
+    }
+  };
+
+  const refreshMissingInfoRef = useRef(refreshMissingInfo);
+  useEffect(() => {
+    refreshMissingInfoRef.current = refreshMissingInfo;
+  });
+
+  // Try on load, and again whenever the browser comes back online
+  useEffect(() => {
+    const handleOnline = () => {
+      refreshMissingInfoRef.current().catch(console.error);
+    };
+
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
+  const handleSharePlaylist = async (id: string) => {
+    const playlist = playlists.find(p => p.id === id);
+    if (!playlist) return;
+
+    await copyToClipboard(await buildPlaylistLink(playlist));
+  };
+
   const handleRemoveVideo = (id: string) => {
     const newVideos = videos.filter(video => video.id !== id);
-    setVideos(newVideos);
 
     if (currentVideo && currentVideo.id === id) {
-      setCurrentVideo(newVideos.length > 0 ? newVideos[0] : null);
+      updateActivePlaylist(playlist => ({
+        ...playlist,
+        videos: newVideos,
+        currentVideoId: newVideos.length > 0 ? newVideos[0].id : null
+      }));
+      setCurrentSegmentId(null);
+    } else {
+      setVideos(newVideos);
     }
   };
 
-  const handlePlayVideo = (video: Video) => {
-    // Update current video
+  // Auto play follows the playlist order, so reordering also changes what plays next
+  const handleReorderVideo = (fromIndex: number, toIndex: number) => {
+    setVideos(prev => moveItem(prev, fromIndex, toIndex));
+  };
+
+  // Add a loop to the history. Playing something new ends any stepping back through it
+  const recordPlay = (video: Video, segmentId: string | null) => {
+    const segment = getActiveSegment(video, segmentId);
+    setHistory(prev => addHistoryEntry(prev, activePlaylist.id, video, segment));
+    setHistoryIndex(0);
+  };
+
+  const handlePlayVideo = (video: Video, segmentId?: string) => {
+    setQueueResumeId(null);
+    recordPlay(video, segmentId || null);
+    playEntry(video, segmentId);
+  };
+
+  // Auto play moved on to the next segment of the current entry
+  const handleSegmentChange = (segmentId: string) => {
+    setCurrentSegmentId(segmentId);
+    if (currentVideo) {
+      recordPlay(currentVideo, segmentId);
+    }
+  };
+
+  // Start playing an entry without adding it to the history
+  const playEntry = (video: Video, segmentId?: string) => {
+    // Update current video, starting from the requested segment or the first one
     setCurrentVideo(video);
+    setCurrentSegmentId(getActiveSegment(video, segmentId)?.id ?? null);
+    setPlayRequest(count => count + 1);
     
     // Set up a new timer if needed
     if (backgroundPlayTimerId) {
@@ -277,56 +575,469 @@ function App() {
     }, 300);
   };
 
-  const handleTimeChange = (id: string, type: 'startTime' | 'endTime', value: number | null) => {
-    console.log(`App - Changing ${type} for video ${id} to:`, value);
-    
-    const newVideos = videos.map(video => {
+  // Apply a change to one video. The current video is looked up by ID, so it stays in sync
+  const updateVideo = (id: string, update: (video: Video) => Video) => {
+    setVideos(prev => prev.map(video => {
       if (video.id === id) {
-        const updatedVideo = { ...video, [type]: value };
+        const updatedVideo = update(video);
         console.log('App - Updated video:', updatedVideo);
         return updatedVideo;
       }
       return video;
-    });
-    
-    setVideos(newVideos);
+    }));
+  };
 
-    if (currentVideo && currentVideo.id === id) {
-      const updatedVideo = newVideos.find(v => v.id === id);
-      if (updatedVideo) {
-        console.log('App - Updating current video to:', updatedVideo);
-        setCurrentVideo(updatedVideo);
-      }
-    }
+  // Apply a change to one segment of a video
+  const updateSegment = (id: string, segmentId: string, update: (segment: Segment) => Segment) => {
+    updateVideo(id, video => ({
+      ...video,
+      segments: video.segments.map(segment => segment.id === segmentId ? update(segment) : segment)
+    }));
+  };
+
+  const handleTimeChange = (id: string, segmentId: string, type: 'startTime' | 'endTime', value: number | null) => {
+    console.log(`App - Changing ${type} for segment ${segmentId} of video ${id} to:`, value);
+    updateSegment(id, segmentId, segment => ({ ...segment, [type]: value }));
+  };
+
+  // The player knows the video's length once it loads; keep it for the playlist
+  const handleDurationChange = (id: string, duration: number) => {
+    const video = videos.find(v => v.id === id);
+    if (!video || video.duration === duration) return;
+    updateVideo(id, v => ({ ...v, duration }));
+  };
+
+  // An empty label goes back to the title from YouTube
+  const handleRenameVideo = (id: string, customTitle: string | null) => {
+    updateVideo(id, video => ({ ...video, customTitle: customTitle?.trim() || undefined }));
+  };
+
+  const handleRenameSegment = (id: string, segmentId: string, name: string) => {
+    updateSegment(id, segmentId, segment => ({ ...segment, name }));
+  };
+
+  const handleSpeedChange = (id: string, playbackRate: number, speedTrainer: SpeedTrainer | null) => {
+    updateVideo(id, video => ({ ...video, playbackRate, speedTrainer }));
+  };
+
+  const handleRepeatCountChange = (id: string, repeatCount: number | null) => {
+    updateVideo(id, video => ({ ...video, repeatCount }));
+  };
+
+  const handleVolumeOffsetChange = (id: string, volumeOffset: number) => {
+    updateVideo(id, video => ({ ...video, volumeOffset }));
+  };
+
+  // The player reports the current entry's volume; the master volume is what gets saved
+  const handleVolumeChange = (entryVolume: number, muted: boolean) => {
+    const updated = { masterVolume: getMasterVolume(entryVolume, currentVideo?.volumeOffset), muted };
+    console.log('Volume changed:', updated);
+    setVolumeSettings(updated);
+    saveVolumeSettings(updated);
+  };
+
+  const handleSettingsChange = (updatedSettings: AppSettings) => {
+    setSettings(updatedSettings);
+    saveSettings(updatedSettings);
   };
 
-  const extractVideoId = (url: string) => {
-    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-    const match = url.match(regExp);
-    return match && match[2].length === 11 ? match[2] : null;
+  const handleAddSegment = (id: string) => {
+    updateVideo(id, video => {
+      // Start the new segment where the last one ends, so passages can be added in order
+      const lastSegment = video.segments[video.segments.length - 1];
+      const newSegment = createSegment(
+        lastSegment ? lastSegment.endTime : null,
+        null,
+        getDefaultSegmentName(video.segments.length)
+      );
+      return { ...video, segments: [...video.segments, newSegment] };
+    });
+  };
+
+  const handleRemoveSegment = (id: string, segmentId: string) => {
+    updateVideo(id, video => {
+      // Every entry keeps at least one segment
+      if (video.segments.length <= 1) return video;
+      return { ...video, segments: video.segments.filter(segment => segment.id !== segmentId) };
+    });
+
+    if (currentSegmentId === segmentId) {
+      setCurrentSegmentId(null);
+    }
   };
 
   const handleVideoEnd = () => {
     // If we have a current video and playlist
     if (currentVideo && videos.length > 0) {
+      // The player checks the sleep timer itself, but the background timer can get here first
+      if ((sleepAt === 'loopEnd' || sleepAt === 'entryEnd') && sleepTimer) {
+        console.log('App - Entry ended at the sleep timer, stopping instead of advancing');
+        setSleepTimer({ ...sleepTimer, stopNow: true });
+        return;
+      }
+
       // Only advance to next video when autoPlayEnabled is true
       if (autoPlayEnabled) {
-        const currentIndex = videos.findIndex(v => v.id === currentVideo.id);
-        if (currentIndex < videos.length - 1) {
-          // Play next video
-          handlePlayVideo(videos[currentIndex + 1]);
-        } else {
-          // Loop back to first video if at the end
-          handlePlayVideo(videos[0]);
+        if (sleepTimer?.mode === 'passes' && isLastOfPass) {
+          setSleepTimer({ ...sleepTimer, completedPasses: sleepTimer.completedPasses + 1 });
+        }
+        playNextPlayable(videos);
+      }
+    }
+  };
+
+  // A service worker timer ran out. If it was for the current video, it has finished playing
+  const handleTimerComplete = (detail: { type: string; videoId?: string; timers?: { videoId: string }[] }) => {
+    console.log('Timer complete event received:', detail);
+
+    // Handle different message types
+    if (detail.type === 'TIMER_COMPLETE') {
+      // Verify this is for the current video
+      if (currentVideo && currentVideo.videoId === detail.videoId) {
+        console.log('Service worker timer completed for current video, advancing');
+        handleVideoEnd();
+      }
+    }
+    else if (detail.type === 'TIMERS_COMPLETED') {
+      // Check if any completed timer matches the current video
+      if (currentVideo && detail.timers?.some(timer => timer.videoId === currentVideo.videoId)) {
+        console.log('Service worker reports timers completed for current video, advancing');
+        handleVideoEnd();
+      }
+    }
+  };
+
+  // Keep the timer listener calling the latest handler, with the current queue and auto play
+  // mode, without re-subscribing
+  const handleTimerCompleteRef = useRef(handleTimerComplete);
+  useEffect(() => {
+    handleTimerCompleteRef.current = handleTimerComplete;
+  });
+
+  // Listen for timer complete events from the service worker
+  useEffect(() => {
+    const onTimerComplete = (event: Event) => {
+      handleTimerCompleteRef.current((event as CustomEvent).detail);
+    };
+    
+    // Add event listener
+    window.addEventListener('sw-timer-complete', onTimerComplete);
+    
+    // Set up periodic checks for timers when using service worker
+    let checkInterval: NodeJS.Timeout | null = null;
+    if (swAvailable) {
+      checkInterval = setInterval(() => {
+        checkTimers();
+      }, 10000); // Check every 10 seconds
+    }
+    
+    return () => {
+      window.removeEventListener('sw-timer-complete', onTimerComplete);
+      if (checkInterval) clearInterval(checkInterval);
+    };
+  }, [swAvailable]);
+
+  // Play the first queued entry, or else whatever the auto play mode says comes after the
+  // current playlist position, skipping entries flagged as unavailable
+  const playNextPlayable = (candidates: Video[]) => {
+    const currentId = playlistPositionId;
+
+    const queueIndex = queueItems.findIndex(item => !candidates.find(v => v.id === item.video.id)?.unavailable);
+    if (queueIndex !== -1) {
+      console.log('App - Playing the next queued entry');
+      setQueueItems(queueItems.slice(queueIndex + 1));
+      playQueued(queueItems[queueIndex].video);
+      return;
+    }
+    if (queueItems.length > 0) {
+      setQueueItems([]);
+    }
+
+    let next: Video | undefined;
+    if (autoPlayMode === 'repeatOne') {
+      next = candidates.find(video => video.id === currentId && !video.unavailable);
+    } else {
+      next = getUpcomingVideos(candidates, currentId, autoPlayMode, shuffleOrder)[0];
+
+      // A finished shuffle starts over in a new order, not beginning with the entry just played
+      if (!next && autoPlayMode === 'shuffle') {
+        const order = createShuffleOrder(candidates);
+        if (order.length > 1 && order[0] === currentId) {
+          order.push(order.shift() as string);
         }
+        setShuffleState({ key: shuffleKey, playlistId: activePlaylist.id, order });
+        next = getUpcomingVideos(candidates, null, 'shuffle', order)[0];
+      }
+    }
+
+    if (!next) {
+      console.log(`App - Nothing left to play in ${autoPlayMode} mode, stopping auto play`);
+      return;
+    }
+    handlePlayVideo(next);
+  };
+
+  // The player gave up on the current entry. Permanent problems are flagged on the entry so
+  // auto play skips it from now on; either way auto play moves on
+  const handleUnplayable = (error: PlayerErrorInfo) => {
+    if (!currentVideo) return;
+
+    const unavailable = { code: error.code, message: error.message };
+    if (error.kind === 'permanent') {
+      updateVideo(currentVideo.id, video => ({ ...video, unavailable }));
+    }
+
+    if (autoPlayEnabled) {
+      // The flag isn't in state yet, so mark the entry on the list being searched
+      const candidates = videos.map(video => video.id === currentVideo.id ? { ...video, unavailable } : video);
+      playNextPlayable(candidates);
+    }
+  };
+
+  // An entry that plays after all is no longer unavailable
+  const handlePlaying = () => {
+    if (currentVideo?.unavailable) {
+      updateVideo(currentVideo.id, video => ({ ...video, unavailable: null }));
+    }
+  };
+
+  // Previous steps back through the history, and Next forward again. Past either end, Previous
+  // plays the entry above the current one, and Next the queue, shuffle order or entry below
+  const handleStepVideo = (offset: 1 | -1) => {
+    if (videos.length === 0) return;
+
+    // Until Previous is used the newest loop is normally the current one, unless nothing has
+    // played since the page loaded
+    const startIndex = historyIndex === 0 && history[0]?.entryId !== currentVideo?.id ? -1 : historyIndex;
+    for (let index = startIndex - offset; index >= 0 && index < history.length; index -= offset) {
+      const target = findHistoryTarget(history[index], activePlaylist.id, videos);
+      if (target) {
+        setHistoryIndex(index);
+        playEntry(target.video, target.segmentId ?? undefined);
+        return;
       }
     }
+
+    if (offset === 1 && (queueItems.length > 0 || autoPlayMode === 'shuffle')) {
+      playNextPlayable(videos);
+      return;
+    }
+
+    // Next carries on from where the playlist was before any queued entries
+    const positionId = offset === 1 ? playlistPositionId : currentVideo?.id;
+    const currentIndex = videos.findIndex(v => v.id === positionId);
+    const nextIndex = currentIndex === -1 ? 0 : (currentIndex + offset + videos.length) % videos.length;
+    handlePlayVideo(videos[nextIndex]);
+  };
+
+  const handleAddToQueue = (video: Video) => {
+    setQueue(prev => [...prev, { id: uuidv4(), entryId: video.id }]);
+  };
+
+  const handlePlayNext = (video: Video) => {
+    setQueue(prev => [{ id: uuidv4(), entryId: video.id }, ...prev]);
+  };
+
+  // Play an entry from the queue, remembering where the playlist was if the queue is only
+  // now taking over
+  const playQueued = (video: Video) => {
+    handlePlayVideo(video);
+    setQueueResumeId(playlistPositionId);
+  };
+
+  const handlePlayQueueItem = (id: string) => {
+    const item = queueItems.find(queued => queued.id === id);
+    if (!item) return;
+    setQueueItems(queueItems.filter(queued => queued.id !== id));
+    playQueued(item.video);
+  };
+
+  const handlePlayHistoryEntry = (entry: HistoryEntry) => {
+    const target = findHistoryTarget(entry, activePlaylist.id, videos);
+    if (target) {
+      handlePlayVideo(target.video, target.segmentId ?? undefined);
+    }
+  };
+
+  // Add a loop that is no longer in the active playlist back to it, with the times it had
+  const handleAddHistoryEntry = (entry: HistoryEntry) => {
+    handleAddVideo(`https://www.youtube.com/watch?v=${entry.videoId}`, entry.startTime, entry.endTime);
+  };
+
+  const handleStartSleepTimer = (timer: SleepTimer) => {
+    console.log('App - Starting sleep timer:', timer);
+    setNow(Date.now());
+    setSleepTimer(timer);
+  };
+
+  // The player stopped for the sleep timer. Make sure the background timer can't start the
+  // next entry behind its back
+  const handleSleep = () => {
+    setSleepTimer(null);
+    if (backgroundPlayTimerId) {
+      stopTimer(backgroundPlayTimerId);
+      setBackgroundPlayTimerId(null);
+    }
+  };
+
+  const handleClearHistory = () => {
+    setHistory([]);
+    setHistoryIndex(0);
   };
 
   const toggleAutoPlay = () => {
     setAutoPlayEnabled(!autoPlayEnabled);
   };
 
+  const handleKeymapChange = (updatedKeymap: Keymap) => {
+    setKeymap(updatedKeymap);
+    saveKeymap(updatedKeymap);
+  };
+
+  // Playlist-level keyboard shortcuts; the player handles its own
+  const handleShortcut = (e: KeyboardEvent) => {
+    if (showShortcuts) return;
+
+    if (e.key === HELP_KEY && !isTypingTarget(e.target)) {
+      e.preventDefault();
+      setShowShortcuts(true);
+      return;
+    }
+
+    const action = getShortcutAction(e, keymap);
+    if (action === 'next') {
+      handleStepVideo(1);
+    } else if (action === 'previous') {
+      handleStepVideo(-1);
+    } else if (action === 'toggleAutoPlay') {
+      toggleAutoPlay();
+    } else if ((action === 'speedUp' || action === 'speedDown') && currentVideo) {
+      // The speed trainer is in charge of the speed while it is on
+      if (currentVideo.speedTrainer) return;
+      const playbackRate = getNextPlaybackRate(currentVideo.playbackRate ?? 1, action === 'speedUp' ? 1 : -1);
+      handleSpeedChange(currentVideo.id, playbackRate, null);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  // Keep the key and media listeners calling the latest handlers without re-subscribing
+  const handleShortcutRef = useRef(handleShortcut);
+  const handleStepVideoRef = useRef(handleStepVideo);
+  useEffect(() => {
+    handleShortcutRef.current = handleShortcut;
+    handleStepVideoRef.current = handleStepVideo;
+  });
+
+  // Lock screen and headset next/previous track buttons
+  useEffect(() => {
+    return setMediaActionHandlers({
+      nexttrack: () => handleStepVideoRef.current(1),
+      previoustrack: () => handleStepVideoRef.current(-1)
+    });
+  }, []);
+
+  // Show the current entry on the lock screen
+  const currentTitle = currentVideo ? getVideoTitle(currentVideo) : undefined;
+  const currentYouTubeId = currentVideo?.videoId;
+  useEffect(() => {
+    if (currentTitle && currentYouTubeId) {
+      setMediaMetadata(currentTitle, currentYouTubeId, activePlaylist.name);
+    } else {
+      clearMediaMetadata();
+    }
+  }, [currentTitle, currentYouTubeId, activePlaylist.name]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleShortcutRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  const handleSelectPlaylist = (id: string) => {
+    setPlaylistState(prev => ({ ...prev, activePlaylistId: id }));
+    setCurrentSegmentId(null);
+  };
+
+  const handleCreatePlaylist = (name: string) => {
+    const playlist = createPlaylist(name);
+    setPlaylistState(prev => ({
+      playlists: [...prev.playlists, playlist],
+      activePlaylistId: playlist.id
+    }));
+    setCurrentSegmentId(null);
+  };
+
+  const handleRenamePlaylist = (id: string, name: string) => {
+    setPlaylistState(prev => ({
+      ...prev,
+      playlists: prev.playlists.map(playlist => playlist.id === id ? { ...playlist, name } : playlist)
+    }));
+  };
+
+  const handleDuplicatePlaylist = (id: string) => {
+    const original = playlists.find(playlist => playlist.id === id);
+    if (!original) return;
+
+    const copy = duplicatePlaylist(original);
+    setPlaylistState(prev => ({
+      playlists: [...prev.playlists, copy],
+      activePlaylistId: copy.id
+    }));
+    setCurrentSegmentId(null);
+  };
+
+  const handleDeletePlaylist = (id: string) => {
+    // There is always at least one playlist
+    if (playlists.length <= 1) return;
+
+    setPlaylistState(prev => {
+      const remaining = prev.playlists.filter(playlist => playlist.id !== id);
+      return {
+        playlists: remaining,
+        activePlaylistId: prev.activePlaylistId === id ? remaining[0].id : prev.activePlaylistId
+      };
+    });
+    setCurrentSegmentId(null);
+  };
+
+  const handleExport = () => {
+    downloadExport(playlists, { app: settings, volume: volumeSettings, keymap });
+  };
+
+  // Take over the settings from an import, keeping the current value of anything it lacks
+  const applyImportedSettings = (imported: ImportedSettings) => {
+    handleSettingsChange({ ...settings, ...imported.app });
+
+    const updatedVolume = { ...volumeSettings, ...imported.volume };
+    setVolumeSettings(updatedVolume);
+    saveVolumeSettings(updatedVolume);
+
+    handleKeymapChange(applyBindings(keymap, imported.keymap));
+  };
+
+  const handleApplyImport = (mode: ImportMode, applySettings: boolean) => {
+    if (!pendingImport) return { added: 0, duplicates: 0 };
+
+    if (applySettings && pendingImport.preview.settings) {
+      applyImportedSettings(pendingImport.preview.settings);
+    }
+
+    const result = applyImport(playlists, pendingImport.preview.playlists, mode);
+    setPlaylistState(prev => ({
+      playlists: result.playlists,
+      activePlaylistId: mode === 'replace' ? result.playlists[0].id : prev.activePlaylistId
+    }));
+    if (mode === 'replace') {
+      setCurrentSegmentId(null);
+    }
+
+    return { added: result.added, duplicates: result.duplicates };
+  };
+
   const appStyle: React.CSSProperties = {
     minHeight: '100vh',
     backgroundColor: '#1a202c',
@@ -373,6 +1084,15 @@ function App() {
     color: '#ccc'
   };
 
+  const sleepStatusStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginTop: '8px',
+    color: '#fbd38d',
+    fontSize: '14px'
+  };
+
   const mainContentStyle: React.CSSProperties = {
     display: layout === 'mobile' ? 'flex' : 'grid',
     gridTemplateColumns: '2fr 1fr',
@@ -414,18 +1134,47 @@ function App() {
     fontSize: '14px'
   };
 
+  const footerLinkStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    color: '#999',
+    cursor: 'pointer',
+    fontSize: '14px',
+    textDecoration: 'underline',
+    marginBottom: '8px'
+  };
+
   const playlistHeaderStyle: React.CSSProperties = {
     display: 'flex',
     justifyContent: 'space-between',
     alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '10px',
     marginBottom: '15px'
   };
 
+  const playlistTitleGroupStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    minWidth: 0
+  };
+
   const autoPlayToggleStyle: React.CSSProperties = {
     display: 'flex',
     alignItems: 'center'
   };
 
+  const autoPlayModeSelectStyle: React.CSSProperties = {
+    marginLeft: '8px',
+    padding: '5px 8px',
+    backgroundColor: '#333',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '12px'
+  };
+
   const toggleLabelStyle: React.CSSProperties = {
     fontSize: '14px',
     marginRight: '8px',
@@ -443,6 +1192,87 @@ function App() {
     cursor: 'pointer'
   };
 
+  // What auto play will play after the current entry, queued entries first, for the "Up next" labels
+  const upNextIds = autoPlayEnabled
+    ? [
+      ...queueItems.filter(item => !item.video.unavailable).map(item => item.video.id),
+      ...getUpcomingVideos(videos, playlistPositionId, autoPlayMode, shuffleOrder)
+        .map(video => video.id)
+        .filter(id => id !== currentVideo?.id)
+    ]
+    : [];
+
+  // Rendered in the main column on mobile and in its own column on desktop
+  const playlistSection = (
+    <div style={sectionStyle}>
+      <div style={playlistHeaderStyle}>
+        <div style={playlistTitleGroupStyle}>
+          <h2 style={{ ...sectionTitleStyle, marginBottom: 0 }}>Your Playlist</h2>
+          <PlaylistSwitcher
+            playlists={playlists}
+            activePlaylistId={activePlaylist.id}
+            onSelect={handleSelectPlaylist}
+            onCreate={handleCreatePlaylist}
+            onRename={handleRenamePlaylist}
+            onDuplicate={handleDuplicatePlaylist}
+            onDelete={handleDeletePlaylist}
+            onShare={handleSharePlaylist}
+          />
+        </div>
+        <div style={autoPlayToggleStyle}>
+          <span style={toggleLabelStyle}>Auto Play:</span>
+          <button 
+            onClick={toggleAutoPlay} 
+            style={toggleButtonStyle}
+          >
+            {autoPlayEnabled ? 'ON' : 'OFF'}
+          </button>
+          <select
+            value={autoPlayMode}
+            onChange={(e) => setAutoPlayMode(e.target.value as AutoPlayMode)}
+            style={autoPlayModeSelectStyle}
+            aria-label="Auto play mode"
+          >
+            {AUTO_PLAY_MODES.map(({ mode, label }) => (
+              <option key={mode} value={mode}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {queueItems.length > 0 && (
+        <PlayQueue
+          items={queueItems}
+          onPlay={handlePlayQueueItem}
+          onMove={(fromIndex, toIndex) => setQueueItems(moveItem(queueItems, fromIndex, toIndex))}
+          onRemove={(id) => setQueueItems(queueItems.filter(item => item.id !== id))}
+          onClear={() => setQueue([])}
+        />
+      )}
+      <Playlist 
+        videos={videos} 
+        currentVideo={currentVideo} 
+        currentSegmentId={currentSegmentId}
+        onPlayVideo={handlePlayVideo} 
+        onRemoveVideo={handleRemoveVideo}
+        onReorderVideo={handleReorderVideo}
+        onTimeChange={handleTimeChange}
+        onAddSegment={handleAddSegment}
+        onRemoveSegment={handleRemoveSegment}
+        onRenameSegment={handleRenameSegment}
+        onRenameVideo={handleRenameVideo}
+        onSpeedChange={handleSpeedChange}
+        onRepeatCountChange={handleRepeatCountChange}
+        onVolumeOffsetChange={handleVolumeOffsetChange}
+        onPlayNext={handlePlayNext}
+        onAddToQueue={handleAddToQueue}
+        defaultRepeatCount={settings.defaultRepeatCount}
+        autoPlayEnabled={autoPlayEnabled}
+        autoPlayMode={autoPlayMode}
+        upNextIds={upNextIds}
+      />
+    </div>
+  );
+
   return (
     <div style={appStyle}>
       <div style={containerStyle}>
@@ -453,6 +1283,14 @@ function App() {
               MisterLooperz
             </h1>
             <p style={subtitleStyle}>Loop and play your favorite YouTube videos</p>
+            {sleepTimer && (
+              <p style={sleepStatusStyle} role="status">
+                {describeSleepTimer(sleepTimer, now)}
+                <button style={{ ...toggleButtonStyle, backgroundColor: '#4a5568' }} onClick={() => setSleepTimer(null)} aria-label="Cancel sleep timer">
+                  ✕
+                </button>
+              </p>
+            )}
           </div>
         </header>
 
@@ -462,15 +1300,34 @@ function App() {
               <div>
                 <YouTubePlayer 
                   videoId={currentVideo.videoId} 
-                  startTime={currentVideo.startTime} 
-                  endTime={currentVideo.endTime}
+                  segments={currentVideo.segments}
+                  activeSegmentId={currentSegmentId}
+                  onSegmentChange={handleSegmentChange}
+                  onPrevious={() => handleStepVideo(-1)}
+                  onNext={() => handleStepVideo(1)}
                   onEnd={handleVideoEnd}
                   autoPlayEnabled={autoPlayEnabled}
+                  playbackRate={currentVideo.playbackRate}
+                  speedTrainer={currentVideo.speedTrainer}
+                  onTimeChange={(segmentId, type, value) => handleTimeChange(currentVideo.id, segmentId, type, value)}
+                  keymap={keymap}
+                  repeatCount={currentVideo.repeatCount ?? settings.defaultRepeatCount}
+                  repetitionSettings={settings}
+                  volume={getEntryVolume(volumeSettings.masterVolume, currentVideo.volumeOffset)}
+                  muted={volumeSettings.muted}
+                  onVolumeChange={handleVolumeChange}
+                  onDurationChange={(duration) => handleDurationChange(currentVideo.id, duration)}
+                  onPlaying={handlePlaying}
+                  onUnplayable={handleUnplayable}
+                  restartKey={playRequest}
+                  sleepAt={sleepAt}
+                  sleepFadeSeconds={sleepTimer?.fadeOut ? SLEEP_FADE_SECONDS : 0}
+                  onSleep={handleSleep}
                 />
                 <div style={nowPlayingStyle}>
                   <h2 style={sectionTitleStyle}>Now Playing</h2>
                   <p style={{ color: '#ccc', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                    {truncateText(currentVideo.title, 80)}
+                    {truncateText(getVideoTitle(currentVideo), 80)}
                   </p>
                 </div>
               </div>
@@ -482,66 +1339,78 @@ function App() {
 
             <div style={sectionStyle}>
               <h2 style={sectionTitleStyle}>Add New Video</h2>
-              <VideoInput onAddVideo={handleAddVideo} isLoading={loading} />
+              <VideoInput onAddVideo={handleAddVideo} onAddVideos={handleAddVideos} isLoading={loading} />
+            </div>
+
+            <div style={sectionStyle}>
+              <h2 style={sectionTitleStyle}>Recently Played</h2>
+              <RecentlyPlayed
+                entries={history.slice(0, RECENTLY_PLAYED_COUNT)}
+                canPlay={entry => !!findHistoryTarget(entry, activePlaylist.id, videos)}
+                onPlay={handlePlayHistoryEntry}
+                onAddAgain={handleAddHistoryEntry}
+                onClear={handleClearHistory}
+              />
+            </div>
+
+            <div style={sectionStyle}>
+              <h2 style={sectionTitleStyle}>Sleep Timer</h2>
+              <SleepTimerPanel
+                timer={sleepTimer}
+                now={now}
+                onStart={handleStartSleepTimer}
+                onCancel={() => setSleepTimer(null)}
+              />
+            </div>
+
+            <div style={sectionStyle}>
+              <h2 style={sectionTitleStyle}>Practice Settings</h2>
+              <SettingsPanel settings={settings} onChange={handleSettingsChange} />
+            </div>
+
+            <div style={sectionStyle}>
+              <h2 style={sectionTitleStyle}>Backup</h2>
+              <ImportExport
+                onExport={handleExport}
+                onImport={preview => setPendingImport({ preview, title: 'Import Playlists' })}
+              />
             </div>
             
             {/* Move playlist here for mobile */}
-            {layout === 'mobile' && (
-              <div style={sectionStyle}>
-                <div style={playlistHeaderStyle}>
-                  <h2 style={sectionTitleStyle}>Your Playlist</h2>
-                  <div style={autoPlayToggleStyle}>
-                    <span style={toggleLabelStyle}>Auto Play:</span>
-                    <button 
-                      onClick={toggleAutoPlay} 
-                      style={toggleButtonStyle}
-                    >
-                      {autoPlayEnabled ? 'ON' : 'OFF'}
-                    </button>
-                  </div>
-                </div>
-                <Playlist 
-                  videos={videos} 
-                  currentVideo={currentVideo} 
-                  onPlayVideo={handlePlayVideo} 
-                  onRemoveVideo={handleRemoveVideo}
-                  onTimeChange={handleTimeChange}
-                  autoPlayEnabled={autoPlayEnabled}
-                />
-              </div>
-            )}
+            {layout === 'mobile' && playlistSection}
           </div>
 
           {/* Only show this column on desktop */}
           {layout === 'desktop' && (
             <div style={columnStyle}>
-              <div style={sectionStyle}>
-                <div style={playlistHeaderStyle}>
-                  <h2 style={sectionTitleStyle}>Your Playlist</h2>
-                  <div style={autoPlayToggleStyle}>
-                    <span style={toggleLabelStyle}>Auto Play:</span>
-                    <button 
-                      onClick={toggleAutoPlay} 
-                      style={toggleButtonStyle}
-                    >
-                      {autoPlayEnabled ? 'ON' : 'OFF'}
-                    </button>
-                  </div>
-                </div>
-                <Playlist 
-                  videos={videos} 
-                  currentVideo={currentVideo} 
-                  onPlayVideo={handlePlayVideo} 
-                  onRemoveVideo={handleRemoveVideo}
-                  onTimeChange={handleTimeChange}
-                  autoPlayEnabled={autoPlayEnabled}
-                />
-              </div>
+              {playlistSection}
             </div>
           )}
         </div>
 
+        {pendingImport && (
+          <ImportDialog
+            preview={pendingImport.preview}
+            title={pendingImport.title}
+            onApply={handleApplyImport}
+            onClose={() => setPendingImport(null)}
+          />
+        )}
+
+        {showShortcuts && (
+          <KeyboardShortcutsDialog
+            keymap={keymap}
+            onChange={handleKeymapChange}
+            onClose={() => setShowShortcuts(false)}
+          />
+        )}
+
         <footer style={footerStyle}>
+          <p>
+            <button onClick={() => setShowShortcuts(true)} style={footerLinkStyle}>
+              Keyboard shortcuts ({HELP_KEY})
+            </button>
+          </p>
           <p>© {new Date().getFullYear()} <a href="https://portfolio.rhnkdigital.com/" target="_blank" rel="noopener noreferrer" style={{ color: '#999', textDecoration: 'none' }}>RHNK Digital LLC</a></p>
         </footer>
       </div>
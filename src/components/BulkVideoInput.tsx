@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { BulkLine, parseBulkText } from '../utils/bulkAddUtils';
+import { formatTime } from '../utils/timeUtils';
+import { truncateText } from '../utils/stringUtils';
+
+interface BulkVideoInputProps {
+  onAddVideos: (lines: BulkLine[]) => Promise<void>;
+  isLoading: boolean;
+}
+
+const BulkVideoInput: React.FC<BulkVideoInputProps> = ({ onAddVideos, isLoading }) => {
+  const [text, setText] = useState('');
+  // Parsed lines, shown for review before anything is added
+  const [preview, setPreview] = useState<BulkLine[] | null>(null);
+  const isMobile = window.innerWidth <= 768;
+
+  const validLines = preview ? preview.filter(line => !line.error) : [];
+  const invalidCount = preview ? preview.length - validLines.length : 0;
+
+  const handlePreview = () => {
+    setPreview(parseBulkText(text));
+  };
+
+  const handleAdd = async () => {
+    if (validLines.length === 0) return;
+
+    await onAddVideos(validLines);
+    setText('');
+    setPreview(null);
+  };
+
+  const containerStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+    width: '100%'
+  };
+
+  const textareaStyle: React.CSSProperties = {
+    padding: '10px',
+    border: '1px solid #4a5568',
+    borderRadius: '4px',
+    backgroundColor: '#2d3748',
+    color: 'white',
+    width: '100%',
+    minHeight: '120px',
+    fontFamily: 'monospace',
+    fontSize: isMobile ? '16px' : '13px',
+    resize: 'vertical'
+  };
+
+  const helpTextStyle: React.CSSProperties = {
+    color: '#718096',
+    fontSize: '12px'
+  };
+
+  const tableContainerStyle: React.CSSProperties = {
+    overflowX: 'auto',
+    maxHeight: '300px',
+    overflowY: 'auto'
+  };
+
+  const tableStyle: React.CSSProperties = {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontSize: '13px'
+  };
+
+  const cellStyle: React.CSSProperties = {
+    borderBottom: '1px solid #4a5568',
+    padding: '6px',
+    textAlign: 'left',
+    verticalAlign: 'top'
+  };
+
+  const headerCellStyle: React.CSSProperties = {
+    ...cellStyle,
+    color: '#a0aec0',
+    fontWeight: 'normal'
+  };
+
+  const errorStyle: React.CSSProperties = {
+    color: '#fc8181'
+  };
+
+  const summaryStyle: React.CSSProperties = {
+    color: '#ccc',
+    fontSize: '14px'
+  };
+
+  const buttonRowStyle: React.CSSProperties = {
+    display: 'flex',
+    gap: '10px',
+    flexWrap: 'wrap'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: isMobile ? '12px 20px' : '10px 20px',
+    backgroundColor: '#3182ce',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+    minHeight: isMobile ? '44px' : '38px',
+    fontSize: isMobile ? '16px' : '14px'
+  };
+
+  const secondaryButtonStyle: React.CSSProperties = {
+    ...buttonStyle,
+    backgroundColor: '#4a5568'
+  };
+
+  if (!preview) {
+    return (
+      <div style={containerStyle}>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'https://youtu.be/dQw4w9WgXcQ 1:02-1:45 Solo A\nhttps://www.youtube.com/watch?v=dQw4w9WgXcQ 2:10-2:30'}
+          style={textareaStyle}
+          aria-label="Videos to add, one per line"
+        />
+        <span style={helpTextStyle}>
+          One video per line: URL, then an optional time range like 1:02-1:45, then an optional title.
+        </span>
+        <div style={buttonRowStyle}>
+          <button type="button" onClick={handlePreview} style={buttonStyle} disabled={!text.trim()}>
+            Preview
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={containerStyle}>
+      <p style={summaryStyle}>
+        {validLines.length} ready to add
+        {invalidCount > 0 && <span style={errorStyle}>, {invalidCount} with errors (will be skipped)</span>}
+      </p>
+
+      <div style={tableContainerStyle}>
+        <table style={tableStyle}>
+          <thead>
+            <tr>
+              <th style={headerCellStyle}>Line</th>
+              <th style={headerCellStyle}>Video</th>
+              <th style={headerCellStyle}>Start</th>
+              <th style={headerCellStyle}>End</th>
+              <th style={headerCellStyle}>Title</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.map(line => (
+              <tr key={line.lineNumber}>
+                <td style={cellStyle}>{line.lineNumber}</td>
+                {line.error ? (
+                  <td style={{ ...cellStyle, ...errorStyle }} colSpan={4}>
+                    {line.error}
+                    <div style={helpTextStyle}>{truncateText(line.text, 60)}</div>
+                  </td>
+                ) : (
+                  <>
+                    <td style={cellStyle}>{line.videoId}</td>
+                    <td style={cellStyle}>{formatTime(line.startTime) || '—'}</td>
+                    <td style={cellStyle}>{formatTime(line.endTime) || '—'}</td>
+                    <td style={cellStyle}>
+                      {line.title || <span style={helpTextStyle}>From YouTube</span>}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={buttonRowStyle}>
+        <button
+          type="button"
+          onClick={handleAdd}
+          style={buttonStyle}
+          disabled={isLoading || validLines.length === 0}
+        >
+          {isLoading ? 'Adding...' : `Add ${validLines.length} to Playlist`}
+        </button>
+        <button type="button" onClick={() => setPreview(null)} style={secondaryButtonStyle} disabled={isLoading}>
+          Edit
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkVideoInput;
\ No newline at end of file
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { ImportMode, ImportPreview } from '../utils/exportUtils';
+
+interface ImportDialogProps {
+  preview: ImportPreview;
+  title?: string;
+  // applySettings is true when the user chose to take over the settings in the file as well
+  onApply: (mode: ImportMode, applySettings: boolean) => { added: number; duplicates: number };
+  onClose: () => void;
+}
+
+const ImportDialog: React.FC<ImportDialogProps> = ({
+  preview,
+  title = 'Import Playlists',
+  onApply,
+  onClose
+}) => {
+  // Set once the import has been applied, to show what happened
+  const [result, setResult] = useState<{ added: number; duplicates: number } | null>(null);
+  const [applySettings, setApplySettings] = useState(true);
+
+  const entryCount = preview.playlists.reduce((total, playlist) => total + playlist.videos.length, 0);
+
+  const handleApply = (mode: ImportMode) => {
+    if (mode === 'replace' && !window.confirm('Replace all of your playlists with the imported ones?')) {
+      return;
+    }
+    setResult(onApply(mode, !!preview.settings && applySettings));
+  };
+
+  const overlayStyle: React.CSSProperties = {
+    position: 'fixed',
+    inset: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 100,
+    padding: '20px'
+  };
+
+  const dialogStyle: React.CSSProperties = {
+    backgroundColor: '#2d3748',
+    borderRadius: '5px',
+    padding: '20px',
+    width: '100%',
+    maxWidth: '500px',
+    maxHeight: '80vh',
+    overflowY: 'auto'
+  };
+
+  const titleStyle: React.CSSProperties = {
+    fontSize: '20px',
+    fontWeight: 'bold',
+    marginBottom: '15px'
+  };
+
+  const textStyle: React.CSSProperties = {
+    color: '#ccc',
+    fontSize: '14px',
+    marginBottom: '10px'
+  };
+
+  const errorListStyle: React.CSSProperties = {
+    backgroundColor: 'rgba(229, 62, 62, 0.1)',
+    border: '1px solid #e53e3e',
+    borderRadius: '4px',
+    padding: '8px 8px 8px 24px',
+    color: '#fc8181',
+    fontSize: '13px',
+    marginBottom: '15px',
+    maxHeight: '150px',
+    overflowY: 'auto'
+  };
+
+  const buttonRowStyle: React.CSSProperties = {
+    display: 'flex',
+    gap: '10px',
+    flexWrap: 'wrap',
+    marginTop: '15px'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    backgroundColor: '#4a5568',
+    color: 'white',
+    fontWeight: 'bold',
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '14px'
+  };
+
+  return (
+    <div style={overlayStyle} role="dialog" aria-modal="true" aria-label={title}>
+      <div style={dialogStyle}>
+        <h2 style={titleStyle}>{title}</h2>
+
+        {result ? (
+          <>
+            <p style={textStyle}>
+              Added {result.added} {result.added === 1 ? 'entry' : 'entries'}
+              {result.duplicates > 0 && `, skipped ${result.duplicates} duplicate${result.duplicates === 1 ? '' : 's'}`}.
+              {preview.settings && applySettings && ' Settings were updated.'}
+            </p>
+            <div style={buttonRowStyle}>
+              <button onClick={onClose} style={{ ...buttonStyle, backgroundColor: '#3182ce' }}>
+                Done
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p style={textStyle}>
+              Found {preview.playlists.length} playlist{preview.playlists.length === 1 ? '' : 's'} with {entryCount} {entryCount === 1 ? 'entry' : 'entries'}:
+            </p>
+            <ul style={{ ...textStyle, paddingLeft: '20px' }}>
+              {preview.playlists.map(playlist => (
+                <li key={playlist.id}>{playlist.name} ({playlist.videos.length})</li>
+              ))}
+            </ul>
+
+            {preview.errors.length > 0 && (
+              <>
+                <p style={textStyle}>
+                  {preview.errors.length} row{preview.errors.length === 1 ? '' : 's'} could not be read and will be skipped:
+                </p>
+                <ul style={errorListStyle}>
+                  {preview.errors.map((error, index) => (
+                    <li key={index}>{error}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {preview.settings && (
+              <label style={{ ...textStyle, display: 'flex', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="checkbox"
+                  checked={applySettings}
+                  onChange={(e) => setApplySettings(e.target.checked)}
+                />
+                Also use the practice settings, volume and keyboard shortcuts from the file
+              </label>
+            )}
+
+            <p style={textStyle}>
+              Merge adds new entries to playlists with the same name and skips duplicates.
+              Replace discards your current playlists.
+            </p>
+
+            <div style={buttonRowStyle}>
+              <button
+                onClick={() => handleApply('merge')}
+                style={{ ...buttonStyle, backgroundColor: '#3182ce' }}
+                disabled={entryCount === 0}
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => handleApply('replace')}
+                style={{ ...buttonStyle, backgroundColor: '#e53e3e' }}
+                disabled={preview.playlists.length === 0}
+              >
+                Replace
+              </button>
+              <button onClick={onClose} style={buttonStyle}>
+                Cancel
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
\ No newline at end of file
@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { ImportPreview, parseImportFile } from '../utils/exportUtils';
+
+interface ImportExportProps {
+  onExport: () => void;
+  onImport: (preview: ImportPreview) => void;
+}
+
+const ImportExport: React.FC<ImportExportProps> = ({ onExport, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isMobile = window.innerWidth <= 768;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const preview = parseImportFile(await file.text());
+      setError(null);
+      onImport(preview);
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const containerStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px'
+  };
+
+  const buttonRowStyle: React.CSSProperties = {
+    display: 'flex',
+    gap: '10px',
+    flexWrap: 'wrap'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    backgroundColor: '#4a5568',
+    color: 'white',
+    fontWeight: 'bold',
+    padding: isMobile ? '12px 20px' : '8px 16px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    flexGrow: isMobile ? 1 : 0,
+    fontSize: isMobile ? '16px' : '14px',
+    minHeight: isMobile ? '44px' : '36px'
+  };
+
+  const helpTextStyle: React.CSSProperties = {
+    color: '#a0aec0',
+    fontSize: '13px'
+  };
+
+  const errorStyle: React.CSSProperties = {
+    color: '#fc8181',
+    fontSize: '14px'
+  };
+
+  return (
+    <div style={containerStyle}>
+      <p style={helpTextStyle}>
+        Save all playlists to a file, or load them back on another browser or machine.
+      </p>
+      <div style={buttonRowStyle}>
+        <button onClick={onExport} style={buttonStyle}>
+          Export
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {error && <p style={errorStyle}>{error}</p>}
+    </div>
+  );
+};
+
+export default ImportExport;
\ No newline at end of file
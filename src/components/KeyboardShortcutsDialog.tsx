@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_KEYMAP,
+  HELP_KEY,
+  Keymap,
+  RESERVED_KEYS,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  bindKey,
+  getKeyName
+} from '../utils/keymapUtils';
+
+interface KeyboardShortcutsDialogProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+// Keys that only modify others, ignored while waiting for a new binding
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({
+  keymap,
+  onChange,
+  onClose
+}) => {
+  // Action waiting for its new key, if any
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Key presses stay inside the dialog so they don't also trigger shortcuts
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+
+    if (!capturing) {
+      if (e.key === 'Escape' || e.key === HELP_KEY) {
+        e.preventDefault();
+        onClose();
+      }
+      return;
+    }
+
+    if (MODIFIER_KEYS.includes(e.key)) return;
+    e.preventDefault();
+
+    if (e.key === 'Escape') {
+      setCapturing(null);
+      return;
+    }
+
+    const keyName = getKeyName(e);
+    if (RESERVED_KEYS.includes(keyName)) {
+      setMessage(`${keyName} is reserved and can't be used`);
+      return;
+    }
+
+    const previousAction = SHORTCUT_ACTIONS.find(({ action }) => action !== capturing && keymap[action] === keyName);
+    setMessage(previousAction ? `${keyName} was moved from "${previousAction.label}"` : null);
+    onChange(bindKey(keymap, capturing, keyName));
+    setCapturing(null);
+  };
+
+  const handleReset = () => {
+    setCapturing(null);
+    setMessage(null);
+    onChange({ ...DEFAULT_KEYMAP });
+  };
+
+  const overlayStyle: React.CSSProperties = {
+    position: 'fixed',
+    inset: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 100,
+    padding: '20px'
+  };
+
+  const dialogStyle: React.CSSProperties = {
+    backgroundColor: '#2d3748',
+    borderRadius: '5px',
+    padding: '20px',
+    width: '100%',
+    maxWidth: '500px',
+    maxHeight: '80vh',
+    overflowY: 'auto'
+  };
+
+  const titleStyle: React.CSSProperties = {
+    fontSize: '20px',
+    fontWeight: 'bold',
+    marginBottom: '15px'
+  };
+
+  const textStyle: React.CSSProperties = {
+    color: '#ccc',
+    fontSize: '14px',
+    marginBottom: '10px'
+  };
+
+  const tableStyle: React.CSSProperties = {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontSize: '14px'
+  };
+
+  const cellStyle: React.CSSProperties = {
+    borderBottom: '1px solid #4a5568',
+    padding: '6px',
+    textAlign: 'left'
+  };
+
+  const keyStyle: React.CSSProperties = {
+    display: 'inline-block',
+    minWidth: '28px',
+    padding: '2px 8px',
+    backgroundColor: '#1a202c',
+    border: '1px solid #4a5568',
+    borderRadius: '4px',
+    fontFamily: 'monospace',
+    textAlign: 'center'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    backgroundColor: '#4a5568',
+    color: 'white',
+    fontWeight: 'bold',
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '14px'
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    ...buttonStyle,
+    fontWeight: 'normal',
+    padding: '4px 10px',
+    fontSize: '12px'
+  };
+
+  const buttonRowStyle: React.CSSProperties = {
+    display: 'flex',
+    gap: '10px',
+    flexWrap: 'wrap',
+    marginTop: '15px'
+  };
+
+  return (
+    <div style={overlayStyle} role="dialog" aria-modal="true" aria-label="Keyboard Shortcuts" onKeyDown={handleKeyDown}>
+      <div style={dialogStyle}>
+        <h2 style={titleStyle}>Keyboard Shortcuts</h2>
+        <p style={textStyle}>
+          Shortcuts work anywhere except while typing in a field. Press <span style={keyStyle}>{HELP_KEY}</span> to
+          show this list, and Change to pick a new key.
+        </p>
+
+        <table style={tableStyle}>
+          <tbody>
+            {SHORTCUT_ACTIONS.map(({ action, label }) => (
+              <tr key={action}>
+                <td style={cellStyle}>{label}</td>
+                <td style={cellStyle}>
+                  {capturing === action
+                    ? <span style={{ color: '#fbd38d' }}>Press a key…</span>
+                    : keymap[action]
+                      ? <span style={keyStyle}>{keymap[action]}</span>
+                      : <span style={{ color: '#718096' }}>Not set</span>}
+                </td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>
+                  <button
+                    onClick={() => setCapturing(capturing === action ? null : action)}
+                    style={smallButtonStyle}
+                  >
+                    {capturing === action ? 'Cancel' : 'Change'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {message && <p style={{ ...textStyle, color: '#fbd38d', marginTop: '10px' }} role="status">{message}</p>}
+
+        <div style={buttonRowStyle}>
+          <button onClick={onClose} style={{ ...buttonStyle, backgroundColor: '#3182ce' }} autoFocus>
+            Done
+          </button>
+          <button onClick={handleReset} style={buttonStyle}>
+            Reset to Defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardShortcutsDialog;
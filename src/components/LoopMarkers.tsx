@@ -0,0 +1,122 @@
+import React from 'react';
+import { formatTime } from '../utils/timeUtils';
+
+export type LoopBoundary = 'startTime' | 'endTime';
+
+interface LoopMarkersProps {
+  startTime: number | null;
+  endTime: number | null;
+  onMark: (boundary: LoopBoundary) => void;
+  onNudge: (boundary: LoopBoundary, delta: number) => void;
+  onPreviewEnd: () => void;
+  // Short feedback, e.g. why a mark was refused
+  message: string | null;
+  // Keyboard shortcuts for marking, shown in the button tooltips
+  hotkeys: Record<LoopBoundary, string>;
+  isMobile: boolean;
+}
+
+// Nudge amounts in seconds, in button order
+const NUDGE_STEPS = [-1, -0.1, 0.1, 1];
+
+const formatNudge = (delta: number): string => `${delta > 0 ? '+' : '−'}${Math.abs(delta)}`;
+
+const LoopMarkers: React.FC<LoopMarkersProps> = ({
+  startTime,
+  endTime,
+  onMark,
+  onNudge,
+  onPreviewEnd,
+  message,
+  hotkeys,
+  isMobile
+}) => {
+  const barStyle: React.CSSProperties = {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: isMobile ? '10px' : '20px',
+    padding: '10px',
+    backgroundColor: '#2d3748',
+    borderRadius: '5px',
+    marginTop: '-12px',
+    marginBottom: '20px'
+  };
+
+  const groupStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '4px'
+  };
+
+  const labelStyle: React.CSSProperties = {
+    color: '#ccc',
+    fontSize: '14px',
+    minWidth: '90px'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    backgroundColor: '#4a5568',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    padding: '4px 8px',
+    cursor: 'pointer',
+    fontSize: '12px',
+    minHeight: isMobile ? '36px' : '28px'
+  };
+
+  const markButtonStyle: React.CSSProperties = {
+    ...buttonStyle,
+    backgroundColor: '#3182ce',
+    fontWeight: 'bold'
+  };
+
+  const messageStyle: React.CSSProperties = {
+    color: '#fbd38d',
+    fontSize: '12px'
+  };
+
+  const renderBoundary = (boundary: LoopBoundary, label: string, time: number | null) => (
+    <div style={groupStyle}>
+      <span style={labelStyle}>{label} {time === null ? '—' : formatTime(time)}</span>
+      {NUDGE_STEPS.map(delta => (
+        <button
+          key={delta}
+          style={buttonStyle}
+          onClick={() => onNudge(boundary, delta)}
+          disabled={time === null && boundary === 'endTime'}
+          aria-label={`Move ${label.toLowerCase()} point ${delta > 0 ? 'later' : 'earlier'} by ${Math.abs(delta)} seconds`}
+        >
+          {formatNudge(delta)}
+        </button>
+      ))}
+      <button
+        style={markButtonStyle}
+        onClick={() => onMark(boundary)}
+        title={`Set the ${label.toLowerCase()} point to the current position${hotkeys[boundary] ? ` (${hotkeys[boundary]})` : ''}`}
+      >
+        Mark {label}
+      </button>
+    </div>
+  );
+
+  return (
+    <div style={barStyle}>
+      {renderBoundary('startTime', 'In', startTime)}
+      {renderBoundary('endTime', 'Out', endTime)}
+      <button
+        style={buttonStyle}
+        onClick={onPreviewEnd}
+        disabled={endTime === null}
+        title="Play the last 2 seconds before the out point"
+      >
+        Preview Out
+      </button>
+      {message && <span style={messageStyle} role="status">{message}</span>}
+    </div>
+  );
+};
+
+export default LoopMarkers;
@@ -0,0 +1,189 @@
+import React, { useRef, useState } from 'react';
+import { formatTime } from '../utils/timeUtils';
+import { LoopBoundary } from './LoopMarkers';
+
+interface LoopTimelineProps {
+  duration: number;
+  currentTime: number;
+  startTime: number | null;
+  endTime: number | null;
+  onSeek: (time: number) => void;
+  onChange: (boundary: LoopBoundary, time: number) => void;
+  isMobile: boolean;
+}
+
+// Closest the handles may get to each other, in seconds
+const MIN_LOOP_LENGTH = 0.1;
+
+const LoopTimeline: React.FC<LoopTimelineProps> = ({
+  duration,
+  currentTime,
+  startTime,
+  endTime,
+  onSeek,
+  onChange,
+  isMobile
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  // The handle being dragged and where it is now; only saved when released
+  const [drag, setDrag] = useState<{ boundary: LoopBoundary; time: number } | null>(null);
+
+  const loopStart = drag?.boundary === 'startTime' ? drag.time : startTime ?? 0;
+  const loopEnd = drag?.boundary === 'endTime' ? drag.time : endTime ?? duration;
+
+  const toPercent = (time: number) => `${Math.min(100, Math.max(0, (time / duration) * 100))}%`;
+
+  // Time at a horizontal position on the track
+  const getTimeAt = (clientX: number): number => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return Math.round(fraction * duration * 100) / 100;
+  };
+
+  // Keep each handle on its own side of the other
+  const clampBoundary = (boundary: LoopBoundary, time: number): number => {
+    if (boundary === 'startTime') {
+      return Math.min(Math.max(0, time), loopEnd - MIN_LOOP_LENGTH);
+    }
+    return Math.max(Math.min(duration, time), loopStart + MIN_LOOP_LENGTH);
+  };
+
+  const handleTrackPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Presses on the handles start a drag instead
+    if ((e.target as HTMLElement).dataset.boundary) return;
+    onSeek(getTimeAt(e.clientX));
+  };
+
+  const handleHandlePointerDown = (e: React.PointerEvent<HTMLButtonElement>, boundary: LoopBoundary) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    setDrag({ boundary, time: boundary === 'startTime' ? loopStart : loopEnd });
+  };
+
+  const handleHandlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!drag) return;
+    setDrag({ boundary: drag.boundary, time: clampBoundary(drag.boundary, getTimeAt(e.clientX)) });
+  };
+
+  const handleHandlePointerUp = () => {
+    if (!drag) return;
+    onChange(drag.boundary, drag.time);
+    setDrag(null);
+  };
+
+  // Arrows move a handle by a second, or a tenth of a second with Shift
+  const handleHandleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, boundary: LoopBoundary) => {
+    const step = e.shiftKey ? 0.1 : 1;
+    let delta: number;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') {
+      delta = -step;
+    } else if (e.key === 'ArrowRight' || e.key === 'ArrowUp') {
+      delta = step;
+    } else {
+      return;
+    }
+
+    e.preventDefault();
+    const current = boundary === 'startTime' ? loopStart : loopEnd;
+    onChange(boundary, Math.round(clampBoundary(boundary, current + delta) * 100) / 100);
+  };
+
+  const containerStyle: React.CSSProperties = {
+    padding: '10px 10px 4px',
+    backgroundColor: '#2d3748',
+    borderRadius: '5px',
+    marginBottom: '10px',
+    userSelect: 'none'
+  };
+
+  const trackStyle: React.CSSProperties = {
+    position: 'relative',
+    height: isMobile ? '28px' : '20px',
+    backgroundColor: '#1a202c',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    touchAction: 'none'
+  };
+
+  const regionStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: toPercent(loopStart),
+    width: `calc(${toPercent(loopEnd)} - ${toPercent(loopStart)})`,
+    backgroundColor: 'rgba(99, 179, 237, 0.35)',
+    pointerEvents: 'none'
+  };
+
+  const playheadStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: '-3px',
+    bottom: '-3px',
+    left: toPercent(currentTime),
+    width: '2px',
+    backgroundColor: 'white',
+    pointerEvents: 'none'
+  };
+
+  const handleStyle = (time: number, isDragging: boolean): React.CSSProperties => ({
+    position: 'absolute',
+    top: '-4px',
+    bottom: '-4px',
+    left: toPercent(time),
+    width: isMobile ? '18px' : '12px',
+    transform: 'translateX(-50%)',
+    padding: 0,
+    backgroundColor: isDragging ? '#90cdf4' : '#3182ce',
+    border: '2px solid white',
+    borderRadius: '3px',
+    cursor: 'ew-resize',
+    touchAction: 'none'
+  });
+
+  const labelRowStyle: React.CSSProperties = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    color: '#a0aec0',
+    fontSize: '12px',
+    marginTop: '6px'
+  };
+
+  return (
+    <div style={containerStyle}>
+      <div ref={trackRef} style={trackStyle} onPointerDown={handleTrackPointerDown}>
+        <div style={regionStyle} />
+        <div style={playheadStyle} />
+        {(['startTime', 'endTime'] as LoopBoundary[]).map(boundary => {
+          const time = boundary === 'startTime' ? loopStart : loopEnd;
+          return (
+            <button
+              key={boundary}
+              data-boundary={boundary}
+              role="slider"
+              aria-label={boundary === 'startTime' ? 'Loop start' : 'Loop end'}
+              aria-valuemin={0}
+              aria-valuemax={Math.round(duration)}
+              aria-valuenow={Math.round(time * 100) / 100}
+              aria-valuetext={formatTime(time)}
+              style={handleStyle(time, drag?.boundary === boundary)}
+              onPointerDown={(e) => handleHandlePointerDown(e, boundary)}
+              onPointerMove={handleHandlePointerMove}
+              onPointerUp={handleHandlePointerUp}
+              onPointerCancel={() => setDrag(null)}
+              onKeyDown={(e) => handleHandleKeyDown(e, boundary)}
+            />
+          );
+        })}
+      </div>
+      <div style={labelRowStyle}>
+        <span>{formatTime(loopStart)}</span>
+        <span>{formatTime(Math.floor(currentTime))} / {formatTime(Math.floor(duration))}</span>
+        <span>{formatTime(loopEnd)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default LoopTimeline;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Video } from '../types';
+import { truncateText } from '../utils/stringUtils';
+import { getVideoTitle } from '../utils/youtubeUtils';
+
+/**
+ * An entry waiting in the play queue. The same entry can be queued more than once
+ */
+export interface QueueItem {
+  id: string;
+  video: Video;
+}
+
+interface PlayQueueProps {
+  items: QueueItem[];
+  onPlay: (id: string) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const PlayQueue: React.FC<PlayQueueProps> = ({ items, onPlay, onMove, onRemove, onClear }) => {
+  const [expanded, setExpanded] = useState(true);
+  const isMobile = window.innerWidth <= 768;
+
+  const containerStyle: React.CSSProperties = {
+    backgroundColor: '#1a202c',
+    border: '1px solid #4a5568',
+    borderRadius: '5px',
+    padding: '10px',
+    marginBottom: '15px'
+  };
+
+  const headerStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '10px'
+  };
+
+  const toggleStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: '14px',
+    cursor: 'pointer',
+    padding: 0
+  };
+
+  const listStyle: React.CSSProperties = {
+    listStyle: 'none',
+    margin: '10px 0 0',
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px'
+  };
+
+  const itemStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    color: '#ccc',
+    fontSize: '14px'
+  };
+
+  const itemTitleStyle: React.CSSProperties = {
+    flexGrow: 1,
+    minWidth: 0,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    backgroundColor: '#4a5568',
+    color: 'white',
+    padding: '4px 10px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px',
+    minHeight: isMobile ? '36px' : '28px',
+    flexShrink: 0
+  };
+
+  return (
+    <div style={containerStyle}>
+      <div style={headerStyle}>
+        <button style={toggleStyle} onClick={() => setExpanded(!expanded)} aria-expanded={expanded}>
+          {expanded ? '▾' : '▸'} Queue ({items.length})
+        </button>
+        <button style={smallButtonStyle} onClick={onClear}>
+          Clear
+        </button>
+      </div>
+
+      {expanded && (
+        <ol style={listStyle}>
+          {items.map((item, index) => (
+            <li key={item.id} style={itemStyle}>
+              <span style={{ color: '#718096' }}>{index + 1}.</span>
+              <span style={itemTitleStyle} title={getVideoTitle(item.video)}>
+                {truncateText(getVideoTitle(item.video), isMobile ? 30 : 50)}
+              </span>
+              <button style={smallButtonStyle} onClick={() => onPlay(item.id)}>
+                Play
+              </button>
+              <button
+                style={smallButtonStyle}
+                onClick={() => onMove(index, index - 1)}
+                disabled={index === 0}
+                aria-label="Move up in the queue"
+              >
+                ↑
+              </button>
+              <button
+                style={smallButtonStyle}
+                onClick={() => onMove(index, index + 1)}
+                disabled={index === items.length - 1}
+                aria-label="Move down in the queue"
+              >
+                ↓
+              </button>
+              <button style={smallButtonStyle} onClick={() => onRemove(item.id)} aria-label="Remove from the queue">
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default PlayQueue;
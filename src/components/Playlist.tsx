@@ -1,30 +1,115 @@
-import React, { useState, useEffect } from 'react';
-import { Video } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AutoPlayMode, Segment, SpeedTrainer, Video } from '../types';
 import { formatTime, parseTimeInput } from '../utils/timeUtils';
 import { truncateText } from '../utils/stringUtils';
+import { buildLoopLink, copyToClipboard } from '../utils/shareUtils';
+import { formatVolumeOffset } from '../utils/volumeUtils';
+import { getSegmentDuration } from '../utils/segmentUtils';
+import { getThumbnailUrl, getVideoTitle } from '../utils/youtubeUtils';
+import { AUTO_PLAY_MODES, DEFAULT_AUTO_PLAY_MODE } from '../utils/autoPlayUtils';
 import TimeInput from './TimeInput';
+import SpeedSettings from './SpeedSettings';
+
+// Repeat counts offered per entry, besides the app default
+const REPEAT_COUNT_OPTIONS = [1, 2, 3, 4, 5, 6, 8, 10, 15, 20];
+
+// Volume offsets offered per entry, relative to the master volume
+const VOLUME_OFFSET_OPTIONS = [-50, -40, -30, -20, -10, -5, 0, 5, 10, 20, 30, 40, 50];
 
 interface PlaylistProps {
   videos: Video[];
   currentVideo: Video | null;
-  onPlayVideo: (video: Video) => void;
+  currentSegmentId?: string | null;
+  onPlayVideo: (video: Video, segmentId?: string) => void;
   onRemoveVideo: (id: string) => void;
-  onTimeChange: (id: string, type: 'startTime' | 'endTime', value: number | null) => void;
+  onReorderVideo: (fromIndex: number, toIndex: number) => void;
+  onTimeChange: (id: string, segmentId: string, type: 'startTime' | 'endTime', value: number | null) => void;
+  onAddSegment: (id: string) => void;
+  onRemoveSegment: (id: string, segmentId: string) => void;
+  onRenameSegment: (id: string, segmentId: string, name: string) => void;
+  onRenameVideo: (id: string, customTitle: string | null) => void;
+  onSpeedChange: (id: string, playbackRate: number, speedTrainer: SpeedTrainer | null) => void;
+  onRepeatCountChange: (id: string, repeatCount: number | null) => void;
+  onVolumeOffsetChange: (id: string, volumeOffset: number) => void;
+  onPlayNext: (video: Video) => void;
+  onAddToQueue: (video: Video) => void;
+  defaultRepeatCount: number;
   autoPlayEnabled?: boolean;
+  autoPlayMode?: AutoPlayMode;
+  // Entries auto play will play next, in order
+  upNextIds?: string[];
 }
 
 const Playlist: React.FC<PlaylistProps> = ({
   videos,
   currentVideo,
+  currentSegmentId,
   onPlayVideo,
   onRemoveVideo,
+  onReorderVideo,
   onTimeChange,
-  autoPlayEnabled = false
+  onAddSegment,
+  onRemoveSegment,
+  onRenameSegment,
+  onRenameVideo,
+  onSpeedChange,
+  onRepeatCountChange,
+  onVolumeOffsetChange,
+  onPlayNext,
+  onAddToQueue,
+  defaultRepeatCount,
+  autoPlayEnabled = false,
+  autoPlayMode = DEFAULT_AUTO_PLAY_MODE,
+  upNextIds = []
 }) => {
-  // State to track input values for each video
-  const [inputValues, setInputValues] = useState<Record<string, { start: string; end: string }>>({});
+  // State to track input values for each segment
+  const [inputValues, setInputValues] = useState<Record<string, { start?: string; end?: string }>>({});
   const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
 
+  // Index of the entry being dragged, and where it would be dropped
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Entry whose title is being edited, and the label typed so far
+  const [editingTitle, setEditingTitle] = useState<{ id: string; value: string } | null>(null);
+
+  // Segment whose share link was just copied, for button feedback
+  const [copiedSegmentId, setCopiedSegmentId] = useState<string | null>(null);
+
+  // Entry whose drag handle should keep focus after a keyboard move
+  const keyboardMovedIdRef = useRef<string | null>(null);
+
+  // Moving a DOM node can drop its focus, so restore it on the moved entry's handle
+  useEffect(() => {
+    if (!keyboardMovedIdRef.current) return;
+    const handle = document.querySelector<HTMLButtonElement>(`[data-drag-handle="${keyboardMovedIdRef.current}"]`);
+    handle?.focus();
+    keyboardMovedIdRef.current = null;
+  }, [videos]);
+
+  // Drop typed values that no longer match their segment, e.g. after marking from the player
+  useEffect(() => {
+    const matches = (typed: string | undefined, time: number | null) => {
+      if (typed === undefined) return true;
+      const parsed = parseTimeInput(typed);
+      return parsed.ok && parsed.seconds === time;
+    };
+
+    setInputValues(prev => {
+      const next: typeof prev = {};
+      let changed = false;
+      Object.entries(prev).forEach(([segmentId, typed]) => {
+        const segment = videos.flatMap(video => video.segments).find(s => s.id === segmentId);
+        if (segment && matches(typed.start, segment.startTime) && matches(typed.end, segment.endTime)) {
+          next[segmentId] = typed;
+        } else {
+          changed = true;
+        }
+      });
+      return changed ? next : prev;
+    });
+  }, [videos]);
+
   // Handle window resize
   useEffect(() => {
     const handleResize = () => {
@@ -38,19 +123,98 @@ const Playlist: React.FC<PlaylistProps> = ({
   }, []);
 
   // Handle time input change
-  const handleTimeChange = (videoId: string, type: 'start' | 'end', value: string) => {
+  // A time past the end of the video can't be saved, once its length is known
+  const getTimeError = (video: Video, value?: string): string | null => {
+    if (!value || !video.duration) return null;
+    const parsedTime = parseTimeInput(value);
+    if (!parsedTime.ok || parsedTime.seconds === null || parsedTime.seconds <= video.duration) return null;
+    return `The video is only ${formatTime(video.duration)} long`;
+  };
+
+  const handleTimeChange = (video: Video, segmentId: string, type: 'start' | 'end', value: string) => {
     // Update the input value immediately
     setInputValues(prev => ({
       ...prev,
-      [videoId]: {
-        ...prev[videoId] || { start: '', end: '' },
+      [segmentId]: {
+        ...prev[segmentId],
         [type]: value
       }
     }));
     
-    // Parse the time input and update the video time if valid
+    // Parse the time input and update the segment time if valid
     const parsedTime = parseTimeInput(value);
-    onTimeChange(videoId, type === 'start' ? 'startTime' : 'endTime', parsedTime);
+    if (!parsedTime.ok || getTimeError(video, value)) return;
+    onTimeChange(video.id, segmentId, type === 'start' ? 'startTime' : 'endTime', parsedTime.seconds);
+  };
+
+  const finishEditingTitle = () => {
+    if (!editingTitle) return;
+    onRenameVideo(editingTitle.id, editingTitle.value);
+    setEditingTitle(null);
+  };
+
+  const handleShareSegment = async (video: Video, segment: Segment) => {
+    await copyToClipboard(buildLoopLink(video.videoId, segment.startTime, segment.endTime));
+    setCopiedSegmentId(segment.id);
+    setTimeout(() => setCopiedSegmentId(current => current === segment.id ? null : current), 2000);
+  };
+
+  const finishDrag = () => {
+    if (dragIndex !== null && dropIndex !== null && dragIndex !== dropIndex) {
+      onReorderVideo(dragIndex, dropIndex);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Mouse drag and drop, started from the drag handle
+  const handleDragStart = (e: React.DragEvent<HTMLButtonElement>, index: number) => {
+    e.dataTransfer.effectAllowed = 'move';
+    // Show the whole entry under the cursor rather than just the handle
+    const item = e.currentTarget.closest('[data-playlist-index]');
+    if (item) {
+      e.dataTransfer.setDragImage(item, 20, 20);
+    }
+    setDragIndex(index);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    if (dragIndex === null) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropIndex !== index) {
+      setDropIndex(index);
+    }
+  };
+
+  // Touch drag: track the entry under the finger, since touch events have no drop target
+  const handleTouchStart = (index: number) => {
+    setDragIndex(index);
+    setDropIndex(index);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent<HTMLButtonElement>) => {
+    if (dragIndex === null) return;
+
+    const touch = e.touches[0];
+    const target = document.elementFromPoint(touch.clientX, touch.clientY);
+    const item = target?.closest('[data-playlist-index]');
+    if (item) {
+      setDropIndex(Number(item.getAttribute('data-playlist-index')));
+    }
+  };
+
+  // Keyboard reordering from the focused drag handle
+  const handleHandleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    if (e.key === 'ArrowUp' && index > 0) {
+      e.preventDefault();
+      keyboardMovedIdRef.current = videos[index].id;
+      onReorderVideo(index, index - 1);
+    } else if (e.key === 'ArrowDown' && index < videos.length - 1) {
+      e.preventDefault();
+      keyboardMovedIdRef.current = videos[index].id;
+      onReorderVideo(index, index + 1);
+    }
   };
 
   const containerStyle: React.CSSProperties = {
@@ -59,28 +223,170 @@ const Playlist: React.FC<PlaylistProps> = ({
     paddingRight: '10px'
   };
 
-  const videoItemStyle = (isCurrentVideo: boolean): React.CSSProperties => ({
-    backgroundColor: isCurrentVideo ? '#2a4365' : '#444',
-    padding: '15px',
-    borderRadius: '5px',
+  const videoItemStyle = (isCurrentVideo: boolean, index: number): React.CSSProperties => {
+    const isDropTarget = dragIndex !== null && dropIndex === index && dragIndex !== index;
+    return {
+      backgroundColor: isCurrentVideo ? '#2a4365' : '#444',
+      padding: '15px',
+      borderRadius: '5px',
+      marginBottom: '15px',
+      opacity: dragIndex === index ? 0.5 : 1,
+      // Show which side of the target the dragged entry will land on
+      boxShadow: isDropTarget
+        ? `0 ${dragIndex < index ? '3px' : '-3px'} 0 0 #63b3ed`
+        : 'none'
+    };
+  };
+
+  const itemHeaderStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '10px',
     marginBottom: '15px'
-  });
+  };
+
+  const dragHandleStyle: React.CSSProperties = {
+    backgroundColor: 'transparent',
+    color: '#aaa',
+    border: '1px solid #666',
+    borderRadius: '4px',
+    cursor: dragIndex !== null ? 'grabbing' : 'grab',
+    padding: isMobile ? '8px 10px' : '2px 6px',
+    fontSize: isMobile ? '16px' : '14px',
+    lineHeight: 1,
+    flexShrink: 0,
+    // Keep the page from scrolling while dragging by touch
+    touchAction: 'none'
+  };
 
   const titleStyle: React.CSSProperties = {
     color: 'white',
     whiteSpace: 'nowrap',
     overflow: 'hidden',
     textOverflow: 'ellipsis',
-    marginBottom: '15px',
     fontWeight: 'bold',
+    fontSize: isMobile ? '16px' : '14px',
+    minWidth: 0,
+    flexGrow: 1
+  };
+
+  const thumbnailStyle: React.CSSProperties = {
+    width: isMobile ? '64px' : '80px',
+    aspectRatio: '16 / 9',
+    objectFit: 'cover',
+    borderRadius: '4px',
+    backgroundColor: '#1a202c',
+    flexShrink: 0
+  };
+
+  const detailsStyle: React.CSSProperties = {
+    color: '#a0aec0',
+    fontSize: '12px',
+    fontWeight: 'normal',
+    marginTop: '3px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis'
+  };
+
+  const unavailableRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '6px',
+    marginTop: '5px',
+    whiteSpace: 'normal'
+  };
+
+  const unavailableBadgeStyle: React.CSSProperties = {
+    backgroundColor: '#e53e3e',
+    color: 'white',
+    fontSize: '11px',
+    fontWeight: 'bold',
+    padding: '2px 6px',
+    borderRadius: '3px',
+    textTransform: 'uppercase'
+  };
+
+  const loopLengthStyle: React.CSSProperties = {
+    color: '#a0aec0',
+    fontSize: '12px',
+    whiteSpace: 'nowrap'
+  };
+
+  const segmentStyle = (isCurrentSegment: boolean): React.CSSProperties => ({
+    borderLeft: `3px solid ${isCurrentSegment ? '#63b3ed' : '#666'}`,
+    paddingLeft: '10px',
+    marginBottom: '15px'
+  });
+
+  const segmentHeaderStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginBottom: '10px'
+  };
+
+  const segmentNameInputStyle: React.CSSProperties = {
+    flexGrow: 1,
+    minWidth: 0,
+    padding: '4px 8px',
+    backgroundColor: '#333',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    color: 'white',
     fontSize: isMobile ? '16px' : '14px'
   };
 
+  const smallButtonStyle: React.CSSProperties = {
+    backgroundColor: '#4a5568',
+    color: 'white',
+    padding: '4px 10px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px',
+    minHeight: isMobile ? '36px' : '28px'
+  };
+
+  const addSegmentButtonStyle: React.CSSProperties = {
+    backgroundColor: '#4a5568',
+    color: 'white',
+    fontWeight: 'bold',
+    padding: isMobile ? '12px 20px' : '8px 16px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    flexGrow: isMobile ? 1 : 0,
+    fontSize: isMobile ? '16px' : '14px',
+    minHeight: isMobile ? '44px' : '36px',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center'
+  };
+
+  const repeatRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    color: '#ccc',
+    fontSize: '14px',
+    marginBottom: '8px'
+  };
+
+  const repeatSelectStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    backgroundColor: '#333',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: isMobile ? '16px' : '14px',
+    minHeight: isMobile ? '36px' : '28px'
+  };
+
   const formGroupStyle: React.CSSProperties = {
     display: 'grid',
     gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
-    gap: '10px',
-    marginBottom: '15px'
+    gap: '10px'
   };
 
   const inputGroupStyle: React.CSSProperties = {
@@ -90,7 +396,7 @@ const Playlist: React.FC<PlaylistProps> = ({
   const buttonGroupStyle: React.CSSProperties = {
     display: 'flex',
     gap: '10px',
-    flexWrap: isMobile ? 'wrap' : 'nowrap',
+    flexWrap: 'wrap',
     justifyContent: isMobile ? 'space-between' : 'flex-start'
   };
 
@@ -148,12 +454,19 @@ const Playlist: React.FC<PlaylistProps> = ({
     display: autoPlayEnabled ? 'block' : 'none'
   };
 
+  // How long one pass through the segment lasts, when it can be worked out
+  const renderLoopLength = (video: Video, segment: Segment) => {
+    const loopLength = getSegmentDuration(segment, video.duration);
+    if (loopLength === null) return null;
+    return <span style={loopLengthStyle} title="Loop length">{formatTime(loopLength)}</span>;
+  };
+
   return (
     <div style={containerStyle}>
       {videos.length > 0 && autoPlayEnabled && (
         <div style={{ marginBottom: '10px', backgroundColor: 'rgba(56, 161, 105, 0.1)', padding: '8px', borderRadius: '4px', border: '1px solid #38a169' }}>
           <p style={{ color: '#4ade80', fontSize: '14px', margin: 0 }}>
-            Auto Play: ON - Will play from start to end times, then move to the next video
+            Auto Play: ON - Will play from start to end times, {AUTO_PLAY_MODES.find(({ mode }) => mode === autoPlayMode)?.description}
           </p>
         </div>
       )}
@@ -161,35 +474,197 @@ const Playlist: React.FC<PlaylistProps> = ({
       {videos.map((video, index) => (
         <div
           key={video.id}
-          style={videoItemStyle(currentVideo?.id === video.id)}
+          data-playlist-index={index}
+          style={videoItemStyle(currentVideo?.id === video.id, index)}
+          onDragOver={(e) => handleDragOver(e, index)}
+          onDrop={(e) => {
+            e.preventDefault();
+            finishDrag();
+          }}
         >
-          <div style={titleStyle}>
-            {truncateText(video.title, isMobile ? 40 : 60)}
-            {autoPlayEnabled && index > 0 && (
-              <div style={autoPlayIndicatorStyle}>
-                Up next #{index}
-              </div>
+          <div style={itemHeaderStyle}>
+            <button
+              data-drag-handle={video.id}
+              draggable
+              onDragStart={(e) => handleDragStart(e, index)}
+              onDragEnd={finishDrag}
+              onTouchStart={() => handleTouchStart(index)}
+              onTouchMove={handleTouchMove}
+              onTouchEnd={finishDrag}
+              onTouchCancel={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              onKeyDown={(e) => handleHandleKeyDown(e, index)}
+              style={dragHandleStyle}
+              aria-label={`Reorder ${getVideoTitle(video)}. Use the up and down arrow keys to move it.`}
+              title="Drag to reorder, or focus and use the arrow keys"
+            >
+              ⋮⋮
+            </button>
+            <img
+              src={video.thumbnailUrl || getThumbnailUrl(video.videoId)}
+              alt=""
+              loading="lazy"
+              style={thumbnailStyle}
+            />
+            <div style={titleStyle} title={video.customTitle ? `YouTube title: ${video.title}` : undefined}>
+              {editingTitle?.id === video.id ? (
+                <input
+                  type="text"
+                  value={editingTitle.value}
+                  placeholder={video.title}
+                  onChange={(e) => setEditingTitle({ id: video.id, value: e.target.value })}
+                  onBlur={finishEditingTitle}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishEditingTitle();
+                    if (e.key === 'Escape') setEditingTitle(null);
+                  }}
+                  style={{ ...segmentNameInputStyle, width: '100%' }}
+                  aria-label="Custom title, leave empty to use the YouTube title"
+                  autoFocus
+                />
+              ) : (
+                truncateText(getVideoTitle(video), isMobile ? 40 : 60)
+              )}
+              {(video.author || video.duration) && (
+                <div style={detailsStyle}>
+                  {[video.author, video.duration && formatTime(Math.round(video.duration))].filter(Boolean).join(' · ')}
+                </div>
+              )}
+              {video.unavailable && (
+                <div style={unavailableRowStyle}>
+                  <span style={unavailableBadgeStyle} title={video.unavailable.message}>
+                    Unavailable
+                  </span>
+                  <span style={detailsStyle}>{video.unavailable.message}. Auto play skips it.</span>
+                  <button
+                    onClick={() => onPlayVideo(video)}
+                    style={smallButtonStyle}
+                    title="Try playing it again; the flag clears if it plays"
+                  >
+                    Recheck
+                  </button>
+                </div>
+              )}
+              {upNextIds.includes(video.id) && (
+                <div style={autoPlayIndicatorStyle}>
+                  Up next #{upNextIds.indexOf(video.id) + 1}
+                </div>
+              )}
+            </div>
+            {editingTitle?.id !== video.id && (
+              <button
+                onClick={() => setEditingTitle({ id: video.id, value: video.customTitle ?? '' })}
+                style={{ ...smallButtonStyle, flexShrink: 0 }}
+                title="Give this entry your own title"
+              >
+                Rename
+              </button>
             )}
           </div>
           
-          <div style={formGroupStyle}>
-            <div style={inputGroupStyle}>
-              <TimeInput
-                label="Start Time"
-                value={inputValues[video.id]?.start ?? formatTime(video.startTime)}
-                onChange={(value) => handleTimeChange(video.id, 'start', value)}
-                showHelpText={false}
-              />
-            </div>
-            <div style={inputGroupStyle}>
-              <TimeInput
-                label="End Time"
-                value={inputValues[video.id]?.end ?? formatTime(video.endTime)}
-                onChange={(value) => handleTimeChange(video.id, 'end', value)}
-                showHelpText={false}
-              />
+          {video.segments.map((segment, segmentIndex) => (
+            <div
+              key={segment.id}
+              style={segmentStyle(currentVideo?.id === video.id && (currentSegmentId ? currentSegmentId === segment.id : segmentIndex === 0))}
+            >
+              <div style={segmentHeaderStyle}>
+                <input
+                  type="text"
+                  value={segment.name}
+                  onChange={(e) => onRenameSegment(video.id, segment.id, e.target.value)}
+                  style={segmentNameInputStyle}
+                  aria-label="Segment name"
+                />
+                {renderLoopLength(video, segment)}
+                <button
+                  onClick={() => onPlayVideo(video, segment.id)}
+                  style={smallButtonStyle}
+                >
+                  Play
+                </button>
+                <button
+                  onClick={() => handleShareSegment(video, segment)}
+                  style={smallButtonStyle}
+                  title="Copy a link that opens this loop"
+                >
+                  {copiedSegmentId === segment.id ? 'Copied' : 'Share'}
+                </button>
+                {video.segments.length > 1 && (
+                  <button
+                    onClick={() => onRemoveSegment(video.id, segment.id)}
+                    style={smallButtonStyle}
+                    aria-label={`Remove ${segment.name}`}
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+
+              <div style={formGroupStyle}>
+                <div style={inputGroupStyle}>
+                  <TimeInput
+                    label="Start Time"
+                    value={inputValues[segment.id]?.start ?? formatTime(segment.startTime)}
+                    onChange={(value) => handleTimeChange(video, segment.id, 'start', value)}
+                    error={getTimeError(video, inputValues[segment.id]?.start)}
+                    showHelpText={false}
+                  />
+                </div>
+                <div style={inputGroupStyle}>
+                  <TimeInput
+                    label="End Time"
+                    value={inputValues[segment.id]?.end ?? formatTime(segment.endTime)}
+                    onChange={(value) => handleTimeChange(video, segment.id, 'end', value)}
+                    relativeTo={segment.startTime}
+                    error={getTimeError(video, inputValues[segment.id]?.end)}
+                    showHelpText={false}
+                  />
+                </div>
+              </div>
             </div>
-          </div>
+          ))}
+
+          <label style={repeatRowStyle}>
+            Repeat each loop
+            <select
+              value={video.repeatCount ?? ''}
+              onChange={(e) => onRepeatCountChange(video.id, e.target.value ? Number(e.target.value) : null)}
+              style={repeatSelectStyle}
+            >
+              <option value="">Default ({defaultRepeatCount}×)</option>
+              {REPEAT_COUNT_OPTIONS.map(count => (
+                <option key={count} value={count}>{count}×</option>
+              ))}
+              {video.repeatCount && !REPEAT_COUNT_OPTIONS.includes(video.repeatCount) && (
+                <option value={video.repeatCount}>{video.repeatCount}×</option>
+              )}
+            </select>
+          </label>
+
+          <label style={repeatRowStyle} title="Raise or lower this entry's volume compared to the master volume">
+            Volume
+            <select
+              value={video.volumeOffset ?? 0}
+              onChange={(e) => onVolumeOffsetChange(video.id, Number(e.target.value))}
+              style={repeatSelectStyle}
+            >
+              {VOLUME_OFFSET_OPTIONS.map(offset => (
+                <option key={offset} value={offset}>{formatVolumeOffset(offset)}</option>
+              ))}
+              {video.volumeOffset && !VOLUME_OFFSET_OPTIONS.includes(video.volumeOffset) && (
+                <option value={video.volumeOffset}>{formatVolumeOffset(video.volumeOffset)}</option>
+              )}
+            </select>
+          </label>
+
+          <SpeedSettings
+            playbackRate={video.playbackRate ?? 1}
+            speedTrainer={video.speedTrainer ?? null}
+            onChange={(playbackRate, speedTrainer) => onSpeedChange(video.id, playbackRate, speedTrainer)}
+            isMobile={isMobile}
+          />
           
           <div style={buttonGroupStyle}>
             <button
@@ -198,6 +673,26 @@ const Playlist: React.FC<PlaylistProps> = ({
             >
               {isMobile ? 'Play' : 'Play'}
             </button>
+            <button
+              onClick={() => onPlayNext(video)}
+              style={addSegmentButtonStyle}
+              title="Play this entry after the current one, without moving it in the playlist"
+            >
+              Play Next
+            </button>
+            <button
+              onClick={() => onAddToQueue(video)}
+              style={addSegmentButtonStyle}
+              title="Add this entry to the end of the play queue"
+            >
+              Add to Queue
+            </button>
+            <button
+              onClick={() => onAddSegment(video.id)}
+              style={addSegmentButtonStyle}
+            >
+              Add Segment
+            </button>
             <button
               onClick={() => onRemoveVideo(video.id)}
               style={removeButtonStyle}
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { SavedPlaylist } from '../types';
+
+interface PlaylistSwitcherProps {
+  playlists: SavedPlaylist[];
+  activePlaylistId: string;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onShare: (id: string) => Promise<void>;
+}
+
+const PlaylistSwitcher: React.FC<PlaylistSwitcherProps> = ({
+  playlists,
+  activePlaylistId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onShare
+}) => {
+  // Which name form is open, if any
+  const [editMode, setEditMode] = useState<'create' | 'rename' | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [shareCopied, setShareCopied] = useState(false);
+  const isMobile = window.innerWidth <= 768;
+
+  const activePlaylist = playlists.find(playlist => playlist.id === activePlaylistId);
+
+  const startCreate = () => {
+    setNameDraft('');
+    setEditMode('create');
+  };
+
+  const startRename = () => {
+    setNameDraft(activePlaylist?.name || '');
+    setEditMode('rename');
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = nameDraft.trim();
+    if (!name) return;
+
+    if (editMode === 'create') {
+      onCreate(name);
+    } else if (editMode === 'rename') {
+      onRename(activePlaylistId, name);
+    }
+    setEditMode(null);
+  };
+
+  const handleDelete = () => {
+    if (!activePlaylist) return;
+
+    if (window.confirm(`Delete the playlist "${activePlaylist.name}" and all of its videos?`)) {
+      onDelete(activePlaylistId);
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await onShare(activePlaylistId);
+      setShareCopied(true);
+      setTimeout(() => setShareCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to share playlist:', err);
+    }
+  };
+
+  const containerStyle: React.CSSProperties = {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '6px'
+  };
+
+  const selectStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    backgroundColor: '#333',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: isMobile ? '16px' : '14px',
+    minHeight: isMobile ? '36px' : '28px',
+    maxWidth: '180px'
+  };
+
+  const inputStyle: React.CSSProperties = {
+    ...selectStyle,
+    width: '160px'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    backgroundColor: '#4a5568',
+    color: 'white',
+    padding: '4px 10px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px',
+    minHeight: isMobile ? '36px' : '28px'
+  };
+
+  const disabledButtonStyle: React.CSSProperties = {
+    ...buttonStyle,
+    opacity: 0.5,
+    cursor: 'not-allowed'
+  };
+
+  if (editMode) {
+    return (
+      <form onSubmit={handleNameSubmit} style={containerStyle}>
+        <input
+          type="text"
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          placeholder={editMode === 'create' ? 'New playlist name' : 'Playlist name'}
+          style={inputStyle}
+          aria-label="Playlist name"
+          autoFocus
+        />
+        <button type="submit" style={{ ...buttonStyle, backgroundColor: '#3182ce' }}>
+          {editMode === 'create' ? 'Create' : 'Save'}
+        </button>
+        <button type="button" onClick={() => setEditMode(null)} style={buttonStyle}>
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div style={containerStyle}>
+      <select
+        value={activePlaylistId}
+        onChange={(e) => onSelect(e.target.value)}
+        style={selectStyle}
+        aria-label="Select playlist"
+      >
+        {playlists.map(playlist => (
+          <option key={playlist.id} value={playlist.id}>
+            {playlist.name} ({playlist.videos.length})
+          </option>
+        ))}
+      </select>
+      <button onClick={startCreate} style={buttonStyle}>New</button>
+      <button onClick={startRename} style={buttonStyle}>Rename</button>
+      <button onClick={() => onDuplicate(activePlaylistId)} style={buttonStyle}>Duplicate</button>
+      <button onClick={handleShare} style={buttonStyle} title="Copy a link that opens this playlist">
+        {shareCopied ? 'Link Copied' : 'Share'}
+      </button>
+      <button
+        onClick={handleDelete}
+        style={playlists.length > 1 ? buttonStyle : disabledButtonStyle}
+        disabled={playlists.length <= 1}
+      >
+        Delete
+      </button>
+    </div>
+  );
+};
+
+export default PlaylistSwitcher;
\ No newline at end of file
@@ -0,0 +1,113 @@
+import React from 'react';
+import { HistoryEntry, formatTimeAgo } from '../utils/historyUtils';
+import { truncateText } from '../utils/stringUtils';
+import { formatTime } from '../utils/timeUtils';
+
+interface RecentlyPlayedProps {
+  entries: HistoryEntry[];
+  // Whether the entry can still be played from the active playlist
+  canPlay: (entry: HistoryEntry) => boolean;
+  onPlay: (entry: HistoryEntry) => void;
+  onAddAgain: (entry: HistoryEntry) => void;
+  onClear: () => void;
+}
+
+const RecentlyPlayed: React.FC<RecentlyPlayedProps> = ({ entries, canPlay, onPlay, onAddAgain, onClear }) => {
+  const isMobile = window.innerWidth <= 768;
+
+  const listStyle: React.CSSProperties = {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px'
+  };
+
+  const itemStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    color: '#ccc',
+    fontSize: '14px'
+  };
+
+  const itemTextStyle: React.CSSProperties = {
+    flexGrow: 1,
+    minWidth: 0
+  };
+
+  const titleStyle: React.CSSProperties = {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  };
+
+  const detailsStyle: React.CSSProperties = {
+    color: '#718096',
+    fontSize: '12px'
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    backgroundColor: '#4a5568',
+    color: 'white',
+    padding: '4px 10px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px',
+    minHeight: isMobile ? '36px' : '28px',
+    flexShrink: 0
+  };
+
+  if (entries.length === 0) {
+    return <p style={detailsStyle}>Loops you play will be listed here.</p>;
+  }
+
+  const renderDetails = (entry: HistoryEntry) => {
+    const parts: string[] = [];
+    if (entry.segmentName) parts.push(entry.segmentName);
+    if (entry.startTime !== null || entry.endTime !== null) {
+      parts.push(`${formatTime(entry.startTime ?? 0)}–${entry.endTime !== null ? formatTime(entry.endTime) : 'end'}`);
+    }
+    parts.push(formatTimeAgo(entry.playedAt));
+    return parts.join(' · ');
+  };
+
+  return (
+    <div>
+      <ul style={listStyle}>
+        {entries.map(entry => {
+          const playable = canPlay(entry);
+          return (
+            <li key={entry.id} style={itemStyle}>
+              <div style={itemTextStyle}>
+                <div style={titleStyle} title={entry.title}>
+                  {truncateText(entry.title, isMobile ? 30 : 50)}
+                </div>
+                <div style={detailsStyle}>
+                  {renderDetails(entry)}
+                  {!playable && ' · Not in this playlist'}
+                </div>
+              </div>
+              {playable ? (
+                <button style={smallButtonStyle} onClick={() => onPlay(entry)}>
+                  Play
+                </button>
+              ) : (
+                <button style={smallButtonStyle} onClick={() => onAddAgain(entry)}>
+                  Add Again
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <button style={{ ...smallButtonStyle, marginTop: '10px' }} onClick={onClear}>
+        Clear History
+      </button>
+    </div>
+  );
+};
+
+export default RecentlyPlayed;
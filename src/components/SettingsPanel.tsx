@@ -0,0 +1,111 @@
+import React from 'react';
+import { AppSettings, SETTING_LIMITS } from '../utils/settingsUtils';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const isMobile = window.innerWidth <= 768;
+
+  // Number fields keep the setting within its allowed range
+  const handleNumberChange = (key: keyof AppSettings, rawValue: string) => {
+    const { min, max, integer } = SETTING_LIMITS[key];
+    const parsed = Number(rawValue);
+    if (!rawValue.trim() || !Number.isFinite(parsed)) return;
+
+    const value = integer ? Math.round(parsed) : Math.round(parsed * 10) / 10;
+    onChange({ ...settings, [key]: Math.min(max, Math.max(min, value)) });
+  };
+
+  const containerStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px'
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '8px',
+    color: '#ccc',
+    fontSize: '14px'
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    backgroundColor: '#333',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: isMobile ? '16px' : '14px',
+    minHeight: isMobile ? '36px' : '28px',
+    width: '70px'
+  };
+
+  const helpTextStyle: React.CSSProperties = {
+    color: '#718096',
+    fontSize: '12px'
+  };
+
+  const renderNumberInput = (key: keyof AppSettings, label: string) => {
+    const { min, max, integer } = SETTING_LIMITS[key];
+    return (
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={integer ? 1 : 0.1}
+        value={settings[key]}
+        onChange={(e) => handleNumberChange(key, e.target.value)}
+        style={inputStyle}
+        aria-label={label}
+      />
+    );
+  };
+
+  return (
+    <div style={containerStyle}>
+      <label style={rowStyle}>
+        With auto play, play each loop
+        {renderNumberInput('defaultRepeatCount', 'Default repeat count')}
+        {settings.defaultRepeatCount === 1 ? 'time' : 'times'}
+      </label>
+      <span style={helpTextStyle}>Entries can override this with their own repeat count.</span>
+
+      <label style={rowStyle}>
+        Pause between repetitions for
+        {renderNumberInput('gapSeconds', 'Pause between repetitions in seconds')}
+        seconds
+      </label>
+
+      <label style={rowStyle}>
+        Count in with
+        {renderNumberInput('countInBeats', 'Count-in clicks')}
+        clicks at
+        {renderNumberInput('countInBpm', 'Count-in tempo in BPM')}
+        BPM
+      </label>
+
+      <label style={rowStyle}>
+        Start each repetition
+        {renderNumberInput('leadInSeconds', 'Lead-in in seconds')}
+        seconds before the loop start
+      </label>
+      <label style={rowStyle}>
+        Fade out over
+        {renderNumberInput('fadeOutSeconds', 'Fade-out in seconds')}
+        and back in over
+        {renderNumberInput('fadeInSeconds', 'Fade-in in seconds')}
+        seconds
+      </label>
+      <span style={helpTextStyle}>
+        The pause, count-in, lead-in and fades apply each time a loop starts over, not when moving to the next loop.
+      </span>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import {
+  SLEEP_FADE_SECONDS,
+  SLEEP_TIMER_MODES,
+  SleepTimer,
+  SleepTimerMode,
+  describeSleepTimer,
+  getClockTimeEnd
+} from '../utils/sleepTimerUtils';
+
+interface SleepTimerPanelProps {
+  timer: SleepTimer | null;
+  now: number;
+  onStart: (timer: SleepTimer) => void;
+  onCancel: () => void;
+}
+
+const SleepTimerPanel: React.FC<SleepTimerPanelProps> = ({ timer, now, onStart, onCancel }) => {
+  const [mode, setMode] = useState<SleepTimerMode>('minutes');
+  const [minutes, setMinutes] = useState('30');
+  const [passes, setPasses] = useState('1');
+  const [clockTime, setClockTime] = useState('');
+  const [fadeOut, setFadeOut] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const isMobile = window.innerWidth <= 768;
+
+  const handleStart = () => {
+    const startedAt = Date.now();
+    let endsAt: number | null = null;
+    let passCount = 1;
+
+    if (mode === 'minutes') {
+      const value = Number(minutes);
+      if (!Number.isFinite(value) || value <= 0) {
+        setError('Enter a number of minutes');
+        return;
+      }
+      endsAt = startedAt + value * 60000;
+    } else if (mode === 'clockTime') {
+      endsAt = getClockTimeEnd(clockTime, startedAt);
+      if (endsAt === null) {
+        setError('Enter a time like 23:30');
+        return;
+      }
+    } else if (mode === 'passes') {
+      passCount = Math.round(Number(passes));
+      if (!Number.isFinite(passCount) || passCount < 1) {
+        setError('Enter a number of passes');
+        return;
+      }
+    }
+
+    setError(null);
+    onStart({ mode, endsAt, passes: passCount, completedPasses: 0, fadeOut });
+  };
+
+  const containerStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px'
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '8px',
+    color: '#ccc',
+    fontSize: '14px'
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    backgroundColor: '#333',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: isMobile ? '16px' : '14px',
+    minHeight: isMobile ? '36px' : '28px',
+    width: '70px'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    backgroundColor: '#3182ce',
+    color: 'white',
+    fontWeight: 'bold',
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '14px',
+    alignSelf: 'flex-start'
+  };
+
+  const helpTextStyle: React.CSSProperties = {
+    color: '#718096',
+    fontSize: '12px'
+  };
+
+  if (timer) {
+    return (
+      <div style={containerStyle}>
+        <span style={rowStyle} role="status">
+          {describeSleepTimer(timer, now)}
+          {timer.fadeOut && `, fading out over ${SLEEP_FADE_SECONDS} seconds`}
+        </span>
+        <button style={{ ...buttonStyle, backgroundColor: '#4a5568' }} onClick={onCancel}>
+          Cancel Sleep Timer
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div style={containerStyle}>
+      <label style={rowStyle}>
+        Stop playing
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as SleepTimerMode)}
+          style={{ ...inputStyle, width: 'auto' }}
+        >
+          {SLEEP_TIMER_MODES.map(option => (
+            <option key={option.mode} value={option.mode}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {mode === 'minutes' && (
+        <label style={rowStyle}>
+          In
+          <input type="number" min={1} value={minutes} onChange={(e) => setMinutes(e.target.value)} style={inputStyle} />
+          minutes
+        </label>
+      )}
+      {mode === 'passes' && (
+        <>
+          <label style={rowStyle}>
+            After
+            <input type="number" min={1} value={passes} onChange={(e) => setPasses(e.target.value)} style={inputStyle} />
+            {passes === '1' ? 'pass' : 'passes'}
+          </label>
+          <span style={helpTextStyle}>
+            Needs auto play. A pass ends with the last video of the playlist, so the current pass counts as the first.
+          </span>
+        </>
+      )}
+      {mode === 'clockTime' && (
+        <label style={rowStyle}>
+          At
+          <input
+            type="time"
+            value={clockTime}
+            onChange={(e) => setClockTime(e.target.value)}
+            style={{ ...inputStyle, width: 'auto' }}
+          />
+        </label>
+      )}
+
+      <label style={rowStyle}>
+        <input type="checkbox" checked={fadeOut} onChange={(e) => setFadeOut(e.target.checked)} />
+        Fade out over {SLEEP_FADE_SECONDS} seconds first
+      </label>
+
+      {error && <span style={{ ...helpTextStyle, color: '#fc8181' }} role="alert">{error}</span>}
+
+      <button style={buttonStyle} onClick={handleStart}>
+        Start Sleep Timer
+      </button>
+    </div>
+  );
+};
+
+export default SleepTimerPanel;
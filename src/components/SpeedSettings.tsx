@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { SpeedTrainer } from '../types';
+import {
+  MAX_PLAYBACK_RATE,
+  MIN_PLAYBACK_RATE,
+  PLAYBACK_RATE_OPTIONS,
+  clampPlaybackRate,
+  createSpeedTrainer,
+  formatPlaybackRate
+} from '../utils/speedUtils';
+
+interface SpeedSettingsProps {
+  playbackRate: number;
+  speedTrainer: SpeedTrainer | null;
+  onChange: (playbackRate: number, speedTrainer: SpeedTrainer | null) => void;
+  isMobile: boolean;
+}
+
+type TrainerField = keyof SpeedTrainer;
+
+const TRAINER_FIELDS: { field: TrainerField; label: string; step: number; min: number; max?: number }[] = [
+  { field: 'startRate', label: 'From', step: 0.05, min: MIN_PLAYBACK_RATE, max: MAX_PLAYBACK_RATE },
+  { field: 'step', label: 'Step', step: 0.05, min: 0.01, max: 1 },
+  { field: 'loopsPerStep', label: 'Every N loops', step: 1, min: 1 },
+  { field: 'targetRate', label: 'To', step: 0.05, min: MIN_PLAYBACK_RATE, max: MAX_PLAYBACK_RATE }
+];
+
+const SpeedSettings: React.FC<SpeedSettingsProps> = ({
+  playbackRate,
+  speedTrainer,
+  onChange,
+  isMobile
+}) => {
+  // Text being typed into the trainer fields, so partial numbers like "0." can be entered
+  const [drafts, setDrafts] = useState<Partial<Record<TrainerField, string>>>({});
+
+  const rateOptions = PLAYBACK_RATE_OPTIONS.includes(playbackRate)
+    ? PLAYBACK_RATE_OPTIONS
+    : [...PLAYBACK_RATE_OPTIONS, playbackRate].sort((a, b) => a - b);
+
+  const handleToggleTrainer = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDrafts({});
+    onChange(playbackRate, e.target.checked ? createSpeedTrainer(playbackRate) : null);
+  };
+
+  const handleTrainerFieldChange = (field: TrainerField, value: string) => {
+    setDrafts(prev => ({ ...prev, [field]: value }));
+    if (!speedTrainer) return;
+
+    const parsed = Number(value);
+    if (!value.trim() || !Number.isFinite(parsed) || parsed <= 0) return;
+
+    let fieldValue: number;
+    if (field === 'loopsPerStep') {
+      fieldValue = Math.max(1, Math.round(parsed));
+    } else if (field === 'step') {
+      fieldValue = Math.min(1, Math.round(parsed * 100) / 100);
+    } else {
+      fieldValue = clampPlaybackRate(parsed);
+    }
+    onChange(playbackRate, { ...speedTrainer, [field]: fieldValue });
+  };
+
+  const containerStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    marginBottom: '15px'
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '12px'
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    color: '#ccc',
+    fontSize: '14px'
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    backgroundColor: '#333',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: isMobile ? '16px' : '14px',
+    minHeight: isMobile ? '36px' : '28px'
+  };
+
+  const trainerGridStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: isMobile ? '1fr 1fr' : 'repeat(4, 1fr)',
+    gap: '8px'
+  };
+
+  const fieldLabelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    color: '#a0aec0',
+    fontSize: '12px'
+  };
+
+  return (
+    <div style={containerStyle}>
+      <div style={rowStyle}>
+        <label style={labelStyle}>
+          Speed
+          <select
+            value={playbackRate}
+            onChange={(e) => onChange(Number(e.target.value), speedTrainer)}
+            style={inputStyle}
+            disabled={!!speedTrainer}
+            title={speedTrainer ? 'The speed trainer sets the speed while it is on' : undefined}
+          >
+            {rateOptions.map(rate => (
+              <option key={rate} value={rate}>{formatPlaybackRate(rate)}</option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          <input type="checkbox" checked={!!speedTrainer} onChange={handleToggleTrainer} />
+          Speed trainer
+        </label>
+      </div>
+
+      {speedTrainer && (
+        <div style={trainerGridStyle}>
+          {TRAINER_FIELDS.map(({ field, label, step, min, max }) => (
+            <label key={field} style={fieldLabelStyle}>
+              {label}
+              <input
+                type="number"
+                inputMode="decimal"
+                step={step}
+                min={min}
+                max={max}
+                value={drafts[field] ?? speedTrainer[field]}
+                onChange={(e) => handleTrainerFieldChange(field, e.target.value)}
+                onBlur={() => setDrafts(prev => ({ ...prev, [field]: undefined }))}
+                style={inputStyle}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeedSettings;
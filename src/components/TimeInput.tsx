@@ -1,17 +1,24 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { formatTime, parseTimeInput } from '../utils/timeUtils';
 
 interface TimeInputProps {
   value: string;
   onChange: (value: string) => void;
   label?: string;
   showHelpText?: boolean;
+  // Start time that pasted relative times like "+15" are counted from
+  relativeTo?: number | null;
+  // Problem with the current value found by the parent, e.g. a time past the end of the video
+  error?: string | null;
 }
 
 const TimeInput: React.FC<TimeInputProps> = ({
   value,
   onChange,
   label,
-  showHelpText = true
+  showHelpText = true,
+  relativeTo,
+  error
 }) => {
   const isMobile = window.innerWidth <= 768;
   
@@ -25,6 +32,7 @@ const TimeInput: React.FC<TimeInputProps> = ({
   const [hours, setHours] = useState<string>('');
   const [minutes, setMinutes] = useState<string>('');
   const [seconds, setSeconds] = useState<string>('');
+  const [pasteError, setPasteError] = useState<string | null>(null);
   
   // When the component mounts or value changes, parse the time
   useEffect(() => {
@@ -76,6 +84,16 @@ const TimeInput: React.FC<TimeInputProps> = ({
     // Otherwise return exactly what the user entered (limited to 2 digits)
     return numericOnly.slice(0, 2);
   };
+
+  // Like validateInput, but keeps up to two decimal places (23.45)
+  const validateSecondsInput = (input: string): string => {
+    const [whole = '', ...fractionParts] = input.split('.');
+    const wholeSeconds = validateInput(whole, 59);
+    if (fractionParts.length === 0) return wholeSeconds;
+
+    const fraction = fractionParts.join('').replace(/\D/g, '').slice(0, 2);
+    return `${wholeSeconds || '0'}.${fraction}`;
+  };
   
   // Generate the time string from individual fields
   const generateTimeString = (h: string, m: string, s: string): string => {
@@ -132,12 +150,32 @@ const TimeInput: React.FC<TimeInputProps> = ({
   };
   
   const handleSecondsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newSeconds = validateInput(e.target.value, 59);
+    const newSeconds = validateSecondsInput(e.target.value);
     setSeconds(newSeconds);
     
     const timeString = generateTimeString(hours, minutes, newSeconds);
     onChange(timeString);
   };
+
+  // Pasting a whole time (1:23.45, 90s, 1h2m3s, +15) into any field fills all of them
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const pasted = e.clipboardData.getData('text').trim();
+    // Plain digits paste into the field as usual
+    if (!pasted || /^\d{1,2}$/.test(pasted)) {
+      setPasteError(null);
+      return;
+    }
+
+    e.preventDefault();
+    const result = parseTimeInput(pasted, { relativeTo });
+    if (!result.ok) {
+      setPasteError(result.error);
+      return;
+    }
+
+    setPasteError(null);
+    onChange(formatTime(result.seconds));
+  };
   
   // Handle input focus to manage navigation between fields
   const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => {
@@ -182,6 +220,12 @@ const TimeInput: React.FC<TimeInputProps> = ({
     ...inputStyle,
     width: isMobile ? '50px' : '40px'
   };
+
+  // Room for fractional seconds like 23.45
+  const secondsInputStyle = {
+    ...inputStyle,
+    width: isMobile ? '70px' : '56px'
+  };
   
   const separatorStyle: React.CSSProperties = {
     color: '#999',
@@ -195,6 +239,11 @@ const TimeInput: React.FC<TimeInputProps> = ({
     fontSize: '12px',
     marginTop: '2px'
   };
+
+  const errorTextStyle: React.CSSProperties = {
+    ...helpTextStyle,
+    color: '#fc8181'
+  };
   
   return (
     <div style={containerStyle}>
@@ -210,6 +259,7 @@ const TimeInput: React.FC<TimeInputProps> = ({
           value={hours}
           onChange={handleHoursChange}
           onFocus={handleFocus}
+          onPaste={handlePaste}
           maxLength={2}
           style={inputSmallStyle}
           aria-label="Hours"
@@ -225,6 +275,7 @@ const TimeInput: React.FC<TimeInputProps> = ({
           value={minutes}
           onChange={handleMinutesChange}
           onFocus={handleFocus}
+          onPaste={handlePaste}
           maxLength={2}
           style={inputSmallStyle}
           aria-label="Minutes"
@@ -235,19 +286,24 @@ const TimeInput: React.FC<TimeInputProps> = ({
         <input
           id={secondsId}
           type="text"
-          inputMode="numeric"
+          inputMode="decimal"
           placeholder="00"
           value={seconds}
           onChange={handleSecondsChange}
           onFocus={handleFocus}
-          maxLength={2}
-          style={inputSmallStyle}
+          onPaste={handlePaste}
+          maxLength={5}
+          style={secondsInputStyle}
           aria-label="Seconds"
         />
       </div>
       
+      {(pasteError || error) && (
+        <span style={errorTextStyle} role="alert">{pasteError || error}</span>
+      )}
+      
       {showHelpText && (
-        <span style={helpTextStyle}>HH:MM:SS format</span>
+        <span style={helpTextStyle}>HH:MM:SS.ss format, or paste 1:23.45, 90s or 1h2m3s</span>
       )}
     </div>
   );
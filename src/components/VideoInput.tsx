@@ -1,23 +1,63 @@
 import React, { useState } from 'react';
-import { parseTimeString } from '../utils/timeUtils';
+import { formatTime, parseTimeInput } from '../utils/timeUtils';
+import { parseYouTubeUrl } from '../utils/youtubeUrlUtils';
 import TimeInput from './TimeInput';
+import BulkVideoInput from './BulkVideoInput';
+import { BulkLine } from '../utils/bulkAddUtils';
 
 interface VideoInputProps {
   onAddVideo: (url: string, startTime: number | null, endTime: number | null) => void;
+  onAddVideos: (lines: BulkLine[]) => Promise<void>;
   isLoading: boolean;
 }
 
-const VideoInput: React.FC<VideoInputProps> = ({ onAddVideo, isLoading }) => {
+const VideoInput: React.FC<VideoInputProps> = ({ onAddVideo, onAddVideos, isLoading }) => {
+  const [mode, setMode] = useState<'single' | 'bulk'>('single');
   const [url, setUrl] = useState('');
   const [startTimeStr, setStartTimeStr] = useState('');
   const [endTimeStr, setEndTimeStr] = useState('');
+  // Problem with the URL itself, shown under the URL field
+  const [urlError, setUrlError] = useState<string | null>(null);
+  // Problem found when adding, such as an end time before the start time
+  const [submitError, setSubmitError] = useState<string | null>(null);
   const isMobile = window.innerWidth <= 768;
 
+  const handleUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newUrl = e.target.value;
+    setUrl(newUrl);
+    setSubmitError(null);
+
+    if (!newUrl.trim()) {
+      setUrlError(null);
+      return;
+    }
+
+    const parsedUrl = parseYouTubeUrl(newUrl);
+    if (!parsedUrl.ok) {
+      setUrlError(parsedUrl.error);
+      return;
+    }
+    setUrlError(null);
+
+    // Prefill times from t=, start= and end= in the link, without overwriting anything typed
+    if (parsedUrl.startTime !== null && !startTimeStr) {
+      setStartTimeStr(formatTime(parsedUrl.startTime));
+    }
+    if (parsedUrl.endTime !== null && !endTimeStr) {
+      setEndTimeStr(formatTime(parsedUrl.endTime));
+    }
+  };
+
+  // Start time in seconds, for pasted end times like "+15"
+  const parsedStartTime = parseTimeInput(startTimeStr);
+  const startTimeSeconds = parsedStartTime.ok ? parsedStartTime.seconds : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!url) {
-      alert('Please enter a YouTube URL');
+    const parsedUrl = parseYouTubeUrl(url);
+    if (!parsedUrl.ok) {
+      setUrlError(parsedUrl.error);
       return;
     }
 
@@ -31,14 +71,24 @@ const VideoInput: React.FC<VideoInputProps> = ({ onAddVideo, isLoading }) => {
     });
 
     // Parse time strings to seconds
-    const startTime = formattedStartTime ? parseTimeString(formattedStartTime) : null;
-    const endTime = formattedEndTime ? parseTimeString(formattedEndTime) : null;
+    const parsedStart = parseTimeInput(formattedStartTime);
+    if (!parsedStart.ok) {
+      setSubmitError(`Start time: ${parsedStart.error}`);
+      return;
+    }
+    const parsedEnd = parseTimeInput(formattedEndTime, { relativeTo: parsedStart.seconds });
+    if (!parsedEnd.ok) {
+      setSubmitError(`End time: ${parsedEnd.error}`);
+      return;
+    }
+    const startTime = parsedStart.seconds;
+    const endTime = parsedEnd.seconds;
     
     console.log('VideoInput - parsed times:', { startTime, endTime });
 
     // Validate end time is after start time if both are provided
     if (startTime !== null && endTime !== null && endTime <= startTime) {
-      alert('End time must be after start time');
+      setSubmitError('End time must be after start time');
       return;
     }
 
@@ -48,12 +98,31 @@ const VideoInput: React.FC<VideoInputProps> = ({ onAddVideo, isLoading }) => {
     setUrl('');
     setStartTimeStr('');
     setEndTimeStr('');
+    setUrlError(null);
+    setSubmitError(null);
   };
 
   const containerStyle: React.CSSProperties = {
     width: '100%'
   };
 
+  const modeToggleStyle: React.CSSProperties = {
+    display: 'flex',
+    gap: '4px',
+    marginBottom: '15px'
+  };
+
+  const modeButtonStyle = (isActive: boolean): React.CSSProperties => ({
+    backgroundColor: isActive ? '#3182ce' : '#4a5568',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    padding: '6px 12px',
+    fontSize: '12px',
+    fontWeight: 'bold',
+    cursor: 'pointer'
+  });
+
   const formStyle: React.CSSProperties = {
     display: 'flex',
     flexDirection: 'column',
@@ -109,6 +178,12 @@ const VideoInput: React.FC<VideoInputProps> = ({ onAddVideo, isLoading }) => {
     display: 'block'
   };
 
+  const errorStyle: React.CSSProperties = {
+    color: '#fc8181',
+    fontSize: '13px',
+    marginTop: '4px'
+  };
+
   const buttonContainerStyle: React.CSSProperties = {
     display: 'flex',
     justifyContent: isMobile ? 'center' : 'flex-start',
@@ -130,51 +205,74 @@ const VideoInput: React.FC<VideoInputProps> = ({ onAddVideo, isLoading }) => {
 
   return (
     <div style={containerStyle}>
-      <form onSubmit={handleSubmit} style={formStyle}>
-        {/* YouTube URL Input */}
-        <div style={urlInputContainerStyle}>
-          <label htmlFor="videoUrl" style={labelStyle}>YouTube URL</label>
-          <input
-            id="videoUrl"
-            type="text"
-            value={url}
-            onChange={(e) => setUrl(e.target.value)}
-            placeholder="https://www.youtube.com/watch?v=..."
-            style={inputStyle}
-            autoComplete="off"
-          />
-        </div>
-        
-        {/* Time Inputs */}
-        <div style={timeInputContainerStyle}>
-          <div style={timeInputStyle}>
-            <TimeInput 
-              label="Start Time (optional)"
-              value={startTimeStr}
-              onChange={setStartTimeStr}
+      <div style={modeToggleStyle}>
+        <button type="button" onClick={() => setMode('single')} style={modeButtonStyle(mode === 'single')}>
+          Single
+        </button>
+        <button type="button" onClick={() => setMode('bulk')} style={modeButtonStyle(mode === 'bulk')}>
+          Bulk Paste
+        </button>
+      </div>
+
+      {mode === 'bulk' ? (
+        <BulkVideoInput onAddVideos={onAddVideos} isLoading={isLoading} />
+      ) : (
+        <form onSubmit={handleSubmit} style={formStyle}>
+          {/* YouTube URL Input */}
+          <div style={urlInputContainerStyle}>
+            <label htmlFor="videoUrl" style={labelStyle}>YouTube URL</label>
+            <input
+              id="videoUrl"
+              type="text"
+              value={url}
+              onChange={handleUrlChange}
+              placeholder="https://www.youtube.com/watch?v=..."
+              style={urlError ? { ...inputStyle, borderColor: '#e53e3e' } : inputStyle}
+              autoComplete="off"
+              aria-invalid={!!urlError}
+              aria-describedby={urlError ? 'videoUrlError' : undefined}
             />
+            {urlError && (
+              <p id="videoUrlError" style={errorStyle} role="alert">{urlError}</p>
+            )}
           </div>
+        
+          {/* Time Inputs */}
+          <div style={timeInputContainerStyle}>
+            <div style={timeInputStyle}>
+              <TimeInput 
+                label="Start Time (optional)"
+                value={startTimeStr}
+                onChange={setStartTimeStr}
+              />
+            </div>
           
-          <div style={endTimeInputStyle}>
-            <TimeInput 
-              label="End Time (optional)"
-              value={endTimeStr}
-              onChange={setEndTimeStr}
-            />
+            <div style={endTimeInputStyle}>
+              <TimeInput 
+                label="End Time (optional)"
+                value={endTimeStr}
+                relativeTo={startTimeSeconds}
+                onChange={setEndTimeStr}
+              />
+            </div>
           </div>
-        </div>
         
-        {/* Add Button */}
-        <div style={buttonContainerStyle}>
-          <button 
-            type="submit" 
-            style={buttonStyle}
-            disabled={isLoading}
-          >
-            {isLoading ? 'Adding...' : 'Add to Playlist'}
-          </button>
-        </div>
-      </form>
+          {submitError && (
+            <p style={errorStyle} role="alert">{submitError}</p>
+          )}
+
+          {/* Add Button */}
+          <div style={buttonContainerStyle}>
+            <button 
+              type="submit" 
+              style={buttonStyle}
+              disabled={isLoading}
+            >
+              {isLoading ? 'Adding...' : 'Add to Playlist'}
+            </button>
+          </div>
+        </form>
+      )}
     </div>
   );
 };
@@ -1,6 +1,29 @@
 import React, { useRef, useEffect, useState, useCallback, memo } from 'react';
 import YouTube from 'react-youtube';
 import { formatTime } from '../utils/timeUtils';
+import {
+  COARSE_POLL_MS,
+  EMPTY_OVERSHOOT_STATS,
+  OvershootStats,
+  PlaybackSample,
+  RESTART_POLL_MS,
+  estimatePosition,
+  getMsUntil,
+  getNextPollDelay,
+  recordOvershoot,
+  updateSample
+} from '../utils/loopTimingUtils';
+import { Segment, SpeedTrainer } from '../types';
+import LoopMarkers, { LoopBoundary } from './LoopMarkers';
+import LoopTimeline from './LoopTimeline';
+import { DEFAULT_KEYMAP, Keymap, getShortcutAction } from '../utils/keymapUtils';
+import { setMediaActionHandlers, setMediaPlaybackState } from '../utils/mediaSessionUtils';
+import { DEFAULT_SETTINGS, RepetitionSettings } from '../utils/settingsUtils';
+import { MAX_ERROR_RETRIES, PlayerErrorInfo, getPlayerErrorInfo } from '../utils/playerErrorUtils';
+import { getCountInDuration, playCountIn } from '../utils/countInUtils';
+import { DEFAULT_VOLUME, FADE_STEP_MS, getFadeInVolume, getFadeOutVolume } from '../utils/volumeUtils';
+import { formatPlaybackRate, getLoopsUntilNextStep, getTrainerRate } from '../utils/speedUtils';
+import { SleepPoint } from '../utils/sleepTimerUtils';
 
 // Define player state constants to avoid using window.YT directly
 const PLAYER_STATE = {
@@ -9,12 +32,50 @@ const PLAYER_STATE = {
   PAUSED: 2
 };
 
+// How much of the loop end "Preview Out" plays, in seconds
+const PREVIEW_SECONDS = 2;
+
+// Add ?debug to the URL to show loop timing measurements under the player
+const LOOP_DEBUG = new URLSearchParams(window.location.search).has('debug');
+
+// How long the player may keep reporting the old volume after it is changed, in milliseconds
+const VOLUME_SETTLE_MS = 1000;
+
 interface YouTubePlayerProps {
   videoId: string;
-  startTime?: number | null;
-  endTime?: number | null;
+  segments: Segment[];
+  activeSegmentId?: string | null;
+  onSegmentChange?: (segmentId: string) => void;
   onEnd?: () => void;
   autoPlayEnabled?: boolean;
+  playbackRate?: number;
+  speedTrainer?: SpeedTrainer | null;
+  onTimeChange?: (segmentId: string, type: LoopBoundary, value: number | null) => void;
+  keymap?: Keymap;
+  // Times auto play plays each loop before moving on
+  repeatCount?: number;
+  // Pause, count-in and lead-in before each repetition
+  repetitionSettings?: RepetitionSettings;
+  // This entry's volume, and whether the user muted
+  volume?: number;
+  muted?: boolean;
+  // Called when the user changes the volume here or with YouTube's own controls
+  onVolumeChange?: (volume: number, muted: boolean) => void;
+  // Called with the video's length once the player knows it
+  onDurationChange?: (duration: number) => void;
+  // Called when the video starts playing, and when it can't be played at all
+  onPlaying?: () => void;
+  onUnplayable?: (error: PlayerErrorInfo) => void;
+  // Changes whenever the entry is played again, so it restarts even if already loaded
+  restartKey?: number;
+  // Step back through the play history, or forward to what plays next
+  onPrevious?: () => void;
+  onNext?: () => void;
+  // Sleep timer: when to stop playing, fading out over sleepFadeSeconds first. onSleep is
+  // called once playback has stopped
+  sleepAt?: SleepPoint | null;
+  sleepFadeSeconds?: number;
+  onSleep?: () => void;
 }
 
 // Define YouTube event interface
@@ -26,18 +87,113 @@ interface YouTubeEvent {
 // Using memo to prevent unnecessary re-renders
 const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
   videoId,
-  startTime = 0,
-  endTime,
+  segments,
+  activeSegmentId,
+  onSegmentChange,
   onEnd,
-  autoPlayEnabled = false
+  autoPlayEnabled = false,
+  playbackRate = 1,
+  speedTrainer = null,
+  onTimeChange,
+  keymap = DEFAULT_KEYMAP,
+  repeatCount = 1,
+  repetitionSettings = DEFAULT_SETTINGS,
+  volume = DEFAULT_VOLUME,
+  muted = false,
+  onVolumeChange,
+  onDurationChange,
+  onPlaying,
+  onUnplayable,
+  restartKey,
+  onPrevious,
+  onNext,
+  sleepAt = null,
+  sleepFadeSeconds = 0,
+  onSleep
 }) => {
-  const playerRef = useRef(null);
+  const playerRef = useRef<YTPlayer | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-  const [playerError, setPlayerError] = useState<string | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Last playback error, only shown while its video is loaded
+  const [errorState, setPlayerError] = useState<{ videoId: string; message: string; retrying: boolean } | null>(null);
+  const playerError = errorState?.videoId === videoId ? errorState : null;
+  const pollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Kept outside the poll effect, which restarts on every wrap as the pass count changes.
+  // After a wrap the player keeps reporting the old time for a moment; until the restart
+  // deadline passes, that mustn't be taken as reaching the end again
+  const playbackSampleRef = useRef<PlaybackSample | null>(null);
+  const restartDeadlineRef = useRef<number | null>(null);
+  // Measured loop end overshoot; kept in a ref so measuring doesn't re-render outside debug mode
+  const overshootStatsRef = useRef<OvershootStats>(EMPTY_OVERSHOOT_STATS);
+  const [overshootStats, setOvershootStats] = useState<OvershootStats>(EMPTY_OVERSHOOT_STATS);
+
+  // Resolve the segment currently being looped (first segment if none selected)
+  const activeSegmentIndex = Math.max(0, segments.findIndex(segment => segment.id === activeSegmentId));
+  const activeSegment: Segment | undefined = segments[activeSegmentIndex];
+  const startTime = activeSegment?.startTime;
+  const endTime = activeSegment?.endTime;
   const effectiveStartTime = startTime || 0;
+
+  // Set when we seek to the next segment ourselves, so the start time effect doesn't seek again
+  const segmentAdvanceRef = useRef<string | null>(null);
+
+  // The start time the iframe was loaded with. Only changes with the video, since changing
+  // playerVars.start makes react-youtube reload the video instead of seeking within it
+  const [loadStart, setLoadStart] = useState({ videoId, startTime: effectiveStartTime });
+  if (loadStart.videoId !== videoId) {
+    setLoadStart({ videoId, startTime: effectiveStartTime });
+  }
   const lastRecordedPlaybackTimeRef = useRef<number | null>(null);
+
+  // Length of the loaded video, once the player knows it
+  const [durationInfo, setDurationInfo] = useState<{ videoId: string; duration: number } | null>(null);
+  const duration = durationInfo?.videoId === videoId ? durationInfo.duration : 0;
+
+  // Pause or count-in running before the next repetition
+  const [restPhase, setRestPhase] = useState<'gap' | 'countIn' | null>(null);
+  const restTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const stopCountInRef = useRef<(() => void) | null>(null);
+
+  // The volume the user chose. Fades ramp down from and back up to it
+  const baseVolumeRef = useRef(volume);
+  const mutedRef = useRef(muted);
+  // Whether the player was muted when last checked, null until checked for this video
+  const playerMutedRef = useRef<boolean | null>(null);
+  // When the volume was last changed from here, so stale reports aren't taken as the user's
+  const volumeSetAtRef = useRef(0);
+  const onVolumeChangeRef = useRef(onVolumeChange);
+  // Set while the volume is lowered ahead of the loop end
+  const fadingOutRef = useRef(false);
+  const fadeInIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Set while the sleep timer fades out before stopping
+  const sleepFadeIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const onSleepRef = useRef(onSleep);
+
+  // Set while "Preview Out" plays, so reaching the end pauses instead of looping
+  const previewingRef = useRef(false);
+  const [markMessage, setMarkMessage] = useState<string | null>(null);
+  const markMessageTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Loops completed for the speed trainer. Starts over for a new video, segment or trainer settings
+  const trainerKey = `${videoId}|${activeSegment?.id}|${JSON.stringify(speedTrainer)}`;
+  const [trainerProgress, setTrainerProgress] = useState({ key: trainerKey, completedLoops: 0 });
+  if (trainerProgress.key !== trainerKey) {
+    setTrainerProgress({ key: trainerKey, completedLoops: 0 });
+  }
+  // Which pass through the active segment is playing, counting from 1
+  const passKey = `${videoId}|${activeSegment?.id}`;
+  const [passState, setPassState] = useState({ key: passKey, pass: 1 });
+  if (passState.key !== passKey) {
+    setPassState({ key: passKey, pass: 1 });
+  }
+  const loopPass = passState.key === passKey ? passState.pass : 1;
+
+  const activePlaybackRate = speedTrainer
+    ? getTrainerRate(speedTrainer, trainerProgress.completedLoops)
+    : playbackRate;
+  const loopsUntilNextStep = speedTrainer
+    ? getLoopsUntilNextStep(speedTrainer, trainerProgress.completedLoops)
+    : null;
   
   // Add a flag to track user-initiated pauses
   const userPausedRef = useRef(false);
@@ -51,7 +207,7 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
   // Added debug logs
   console.log('YouTubePlayer rendering with props:', {
     videoId,
-    startTime,
+    activeSegmentId: activeSegment?.id,
     effectiveStartTime,
     endTime,
     autoPlayEnabled
@@ -112,7 +268,7 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
       autoplay: 1,
       playsinline: 1, // Essential for iOS
       controls: 1,
-      start: Math.floor(effectiveStartTime),
+      start: Math.floor(loadStart.startTime),
       enablejsapi: 1,
       origin: window.location.origin,
       modestbranding: 1,
@@ -151,7 +307,10 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
     };
   }, []);
 
-  // Update player when startTime or endTime props change
+  // Track which video the player last loaded, so segment changes within it can seek instead
+  const loadedVideoIdRef = useRef(videoId);
+
+  // Update player when the video, active segment or its start time change
   useEffect(() => {
     // Don't seek if we don't have a player yet or we're handling orientation change
     if (!playerRef.current || playerStateRef.current.pendingOrientationChange) {
@@ -162,6 +321,18 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
     console.log('YouTubePlayer - Start time changed to:', effectiveStartTime);
     
     try {
+      // Moving between segments of the same video never reloads the iframe
+      if (loadedVideoIdRef.current === videoId) {
+        if (segmentAdvanceRef.current === activeSegmentId) {
+          // Already seeked when the previous segment ended
+          segmentAdvanceRef.current = null;
+          return;
+        }
+        playerRef.current.seekTo(effectiveStartTime, true);
+        return;
+      }
+      loadedVideoIdRef.current = videoId;
+
       // Force reload the video to respect start time - this is the most reliable way
       if (playerRef.current && 'loadVideoById' in playerRef.current) {
         console.log('YouTubePlayer - Reloading video with start time:', effectiveStartTime);
@@ -178,7 +349,7 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
     } catch (err) {
       console.error('YouTubePlayer - Error handling start time change:', err);
     }
-  }, [videoId, effectiveStartTime]); // React to both videoId and effectiveStartTime changes
+  }, [videoId, effectiveStartTime, activeSegmentId, restartKey]); // React to video, segment, start time and replay changes
   
   // Also update when endTime changes
   useEffect(() => {
@@ -187,111 +358,455 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
     }
   }, [endTime]);
 
+  // Apply the entry's speed, and each speed trainer step
+  useEffect(() => {
+    if (!playerRef.current) return;
+
+    try {
+      console.log('YouTubePlayer - Setting playback rate:', activePlaybackRate);
+      playerRef.current.setPlaybackRate(activePlaybackRate);
+    } catch (err) {
+      console.error('YouTubePlayer - Error setting playback rate:', err);
+    }
+  }, [videoId, activePlaybackRate]);
+
+  // Count a completed loop towards the next speed trainer step
+  const countLoop = useCallback(() => {
+    if (speedTrainer) {
+      setTrainerProgress(prev => ({ ...prev, completedLoops: prev.completedLoops + 1 }));
+    }
+  }, [speedTrainer]);
+
   // Update player state ref with current values (so we can access them in orientation change)
   useEffect(() => {
     playerStateRef.current.currentTime = currentTime;
     playerStateRef.current.isPlaying = isPlaying;
   }, [currentTime, isPlaying]);
 
-  // Update time interval to respect user pauses
+  // In auto-play mode, continue with the next segment of this video if there is one.
+  // Returns false when the last segment has finished and the entry is done
+  const advanceToNextSegment = useCallback((): boolean => {
+    const nextSegment = segments[activeSegmentIndex + 1];
+    if (!autoPlayEnabled || !nextSegment || !playerRef.current) return false;
+
+    console.log('Segment finished, advancing to segment:', nextSegment.name);
+    segmentAdvanceRef.current = nextSegment.id;
+    playerRef.current.seekTo(nextSegment.startTime || 0, true);
+    if (onSegmentChange) {
+      onSegmentChange(nextSegment.id);
+    }
+    return true;
+  }, [segments, activeSegmentIndex, autoPlayEnabled, onSegmentChange]);
+
+  const setPlayerVolume = useCallback((level: number) => {
+    playerRef.current?.setVolume(level);
+    volumeSetAtRef.current = performance.now();
+  }, []);
+
+  const stopFadeIn = useCallback(() => {
+    if (fadeInIntervalRef.current) {
+      clearInterval(fadeInIntervalRef.current);
+      fadeInIntervalRef.current = null;
+    }
+  }, []);
+
+  // Bring the volume back up after a wrap, ramping if a fade-in is set
+  const startFadeIn = useCallback(() => {
+    const player = playerRef.current;
+    if (!player || sleepFadeIntervalRef.current) return;
+
+    stopFadeIn();
+    fadingOutRef.current = false;
+
+    const fadeInMs = repetitionSettings.fadeInSeconds * 1000;
+    if (fadeInMs <= 0) {
+      setPlayerVolume(baseVolumeRef.current);
+      return;
+    }
+
+    const startedAt = performance.now();
+    setPlayerVolume(0);
+    fadeInIntervalRef.current = setInterval(() => {
+      const elapsedMs = performance.now() - startedAt;
+      setPlayerVolume(getFadeInVolume(baseVolumeRef.current, elapsedMs, fadeInMs));
+      if (elapsedMs >= fadeInMs) {
+        stopFadeIn();
+      }
+    }, FADE_STEP_MS);
+  }, [repetitionSettings, setPlayerVolume, stopFadeIn]);
+
+  useEffect(() => stopFadeIn, [stopFadeIn]);
+
+  // Stop any pause or count-in waiting to start the next repetition
+  const cancelRest = useCallback(() => {
+    if (restTimeoutRef.current) {
+      clearTimeout(restTimeoutRef.current);
+      restTimeoutRef.current = null;
+    }
+    if (stopCountInRef.current) {
+      stopCountInRef.current();
+      stopCountInRef.current = null;
+    }
+    setRestPhase(null);
+  }, []);
+
+  // A new video never picks up the previous one's rest
+  useEffect(() => cancelRest, [videoId, cancelRest]);
+
+  useEffect(() => {
+    onSleepRef.current = onSleep;
+  }, [onSleep]);
+
+  // Whether the sleep timer stops playback when the active segment ends this time
+  const isSleepingAtSegmentEnd = useCallback((): boolean => {
+    if (sleepAt === 'loopEnd') return true;
+    return sleepAt === 'entryEnd' && autoPlayEnabled && loopPass >= repeatCount && !segments[activeSegmentIndex + 1];
+  }, [sleepAt, autoPlayEnabled, loopPass, repeatCount, segments, activeSegmentIndex]);
+
+  // Stop for the sleep timer, as if the user had paused, with the volume back where it was
+  const stopForSleep = useCallback(() => {
+    console.log('Sleep timer finished, stopping playback');
+    cancelRest();
+    stopFadeIn();
+    fadingOutRef.current = false;
+    userPausedRef.current = true;
+    try {
+      playerRef.current?.pauseVideo();
+    } catch (err) {
+      console.error('Failed to pause for the sleep timer:', err);
+    }
+    setPlayerVolume(baseVolumeRef.current);
+    onSleepRef.current?.();
+  }, [cancelRest, stopFadeIn, setPlayerVolume]);
+
+  // A timed sleep stops right away, after fading out if asked
   useEffect(() => {
-    // Clear any existing interval
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+    if (sleepAt !== 'now') return;
+
+    const fadeMs = sleepFadeSeconds * 1000;
+    if (fadeMs <= 0 || !playerRef.current) {
+      stopForSleep();
+      return;
     }
 
-    if (isPlaying) {
-      // Use a less frequent interval to reduce performance impact
-      intervalRef.current = setInterval(() => {
-        try {
-          if (playerRef.current) {
-            // @ts-ignore
-            const time = playerRef.current.getCurrentTime();
-            setCurrentTime(time);
-            lastRecordedPlaybackTimeRef.current = time;
-            
-            // Check if we need to manually end the video and trigger custom behavior
+    stopFadeIn();
+    const startedAt = performance.now();
+    const interval = setInterval(() => {
+      const msLeft = fadeMs - (performance.now() - startedAt);
+      setPlayerVolume(getFadeOutVolume(baseVolumeRef.current, msLeft, fadeMs));
+      if (msLeft <= 0) {
+        clearInterval(interval);
+        sleepFadeIntervalRef.current = null;
+        stopForSleep();
+      }
+    }, FADE_STEP_MS);
+    sleepFadeIntervalRef.current = interval;
+
+    return () => {
+      // Cancelled before the end; the timer has gone, so the volume goes back up
+      if (sleepFadeIntervalRef.current === interval) {
+        clearInterval(interval);
+        sleepFadeIntervalRef.current = null;
+        setPlayerVolume(baseVolumeRef.current);
+      }
+    };
+  }, [sleepAt, sleepFadeSeconds, stopForSleep, stopFadeIn, setPlayerVolume]);
+
+  // Play the active segment again from its start (less any lead-in), after the configured
+  // pause and count-in
+  const repeatSegment = useCallback(() => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    const { gapSeconds, countInBeats, countInBpm, leadInSeconds } = repetitionSettings;
+    player.seekTo(Math.max(0, effectiveStartTime - leadInSeconds), true);
+    setPassState(prev => ({ ...prev, pass: prev.pass + 1 }));
+    countLoop();
+
+    const countInMs = getCountInDuration(countInBeats, countInBpm);
+    if (gapSeconds <= 0 && countInMs <= 0) {
+      player.playVideo();
+      startFadeIn();
+      return;
+    }
+
+    cancelRest();
+    systemPausedRef.current = true;
+    player.pauseVideo();
+
+    const resume = () => {
+      restTimeoutRef.current = null;
+      stopCountInRef.current = null;
+      setRestPhase(null);
+      playerRef.current?.playVideo();
+      startFadeIn();
+    };
+
+    const startCountIn = () => {
+      setRestPhase('countIn');
+      stopCountInRef.current = playCountIn(countInBeats, countInBpm);
+      restTimeoutRef.current = setTimeout(resume, countInMs);
+    };
+
+    if (gapSeconds > 0) {
+      setRestPhase('gap');
+      restTimeoutRef.current = setTimeout(countInMs > 0 ? startCountIn : resume, gapSeconds * 1000);
+    } else {
+      startCountIn();
+    }
+  }, [effectiveStartTime, countLoop, repetitionSettings, cancelRest, startFadeIn]);
+
+  // Handle reaching the end of the active segment: loop it, or move on in auto-play mode
+  // once it has played repeatCount times
+  const handleSegmentEnd = useCallback(() => {
+    if (!playerRef.current) return;
+
+    if (isSleepingAtSegmentEnd()) {
+      stopForSleep();
+      return;
+    }
+
+    if (autoPlayEnabled && loopPass >= repeatCount) {
+      // Whatever plays next starts from its first pass, even if it is this segment again
+      setPassState(prev => ({ ...prev, pass: 1 }));
+
+      // In auto-play mode, move to the next segment, or trigger onEnd to go to next video
+      if (advanceToNextSegment()) {
+        startFadeIn();
+      } else {
+        // The next entry starts at full volume
+        stopFadeIn();
+        fadingOutRef.current = false;
+        setPlayerVolume(baseVolumeRef.current);
+        if (onEnd) {
+          console.log('Time update: End time reached, advancing to next video');
+          onEnd();
+        }
+      }
+    } else {
+      // In loop mode, or with repeats left, loop back to start time
+      console.log(`Loop ${loopPass} finished, repeating`);
+      repeatSegment();
+    }
+  }, [autoPlayEnabled, loopPass, repeatCount, advanceToNextSegment, onEnd, repeatSegment, setPlayerVolume, startFadeIn, stopFadeIn, isSleepingAtSegmentEnd, stopForSleep]);
+
+  // Watch for the end time. Rather than checking once a second, estimate the position from the
+  // last reported time and playback rate, sleep until shortly before the end, then poll finely
+  // so the wrap happens within a few milliseconds of the boundary
+  useEffect(() => {
+    if (!isPlaying) {
+      // Time doesn't advance while paused, so an old sample would overestimate the position
+      playbackSampleRef.current = null;
+      return;
+    }
+
+    // A sleep timer stopping at this loop end may fade out for longer than the loop does
+    const loopFadeOutSeconds = Math.max(
+      repetitionSettings.fadeOutSeconds,
+      isSleepingAtSegmentEnd() ? sleepFadeSeconds : 0
+    );
+
+    const poll = () => {
+      let delay = COARSE_POLL_MS;
+
+      try {
+        const player = playerRef.current;
+        if (player && player.getPlayerState() === PLAYER_STATE.PLAYING) {
+          const now = performance.now();
+          const reportedTime = player.getCurrentTime();
+
+          if (!playbackSampleRef.current || playbackSampleRef.current.time !== reportedTime) {
+            setCurrentTime(reportedTime);
+            lastRecordedPlaybackTimeRef.current = reportedTime;
+          }
+          const sample = updateSample(playbackSampleRef.current, reportedTime, now);
+          playbackSampleRef.current = sample;
+
+          const restartDeadline = restartDeadlineRef.current;
+          if (restartDeadline !== null && (!endTime || reportedTime < endTime || now > restartDeadline)) {
+            restartDeadlineRef.current = null;
+          }
+
+          if (restartDeadlineRef.current !== null) {
+            delay = RESTART_POLL_MS;
+          } else if (endTime && !userPausedRef.current) {
             // Only proceed if user hasn't explicitly paused
-            if (endTime && time >= endTime && !userPausedRef.current) {
-              if (autoPlayEnabled) {
-                // In auto-play mode, trigger onEnd to go to next video
-                if (onEnd) {
-                  console.log('Time update: End time reached, advancing to next video');
-                  onEnd();
-                }
+            const playbackRate = player.getPlaybackRate() || 1;
+            const position = estimatePosition(sample, now, playbackRate);
+            const msUntilEnd = getMsUntil(position, endTime, playbackRate);
+
+            const fadeOutMs = previewingRef.current ? 0 : loopFadeOutSeconds * 1000;
+
+            if (msUntilEnd <= 0) {
+              const overshootMs = (position - endTime) * 1000;
+              overshootStatsRef.current = recordOvershoot(overshootStatsRef.current, overshootMs);
+              if (LOOP_DEBUG) {
+                setOvershootStats(overshootStatsRef.current);
+              }
+
+              if (previewingRef.current) {
+                // The preview stops at the out point so it can be judged
+                previewingRef.current = false;
+                systemPausedRef.current = true;
+                player.pauseVideo();
               } else {
-                // In loop mode, loop back to start time
-                console.log('Time update: End time reached, looping back to start');
-                // @ts-ignore - Ignore TypeScript errors for YouTube API calls
-                playerRef.current.seekTo(effectiveStartTime, true);
+                handleSegmentEnd();
+              }
+              playbackSampleRef.current = null;
+              restartDeadlineRef.current = now + 1000;
+              delay = RESTART_POLL_MS;
+            } else {
+              delay = getNextPollDelay(msUntilEnd);
+
+              if (fadeOutMs > 0 && msUntilEnd <= fadeOutMs) {
+                // Ramp the volume down towards the loop end
+                fadingOutRef.current = true;
+                setPlayerVolume(getFadeOutVolume(baseVolumeRef.current, msUntilEnd, fadeOutMs));
+                delay = Math.min(delay, FADE_STEP_MS);
+              } else if (fadeOutMs > 0) {
+                // Wake up in time to start the fade
+                delay = Math.min(delay, msUntilEnd - fadeOutMs);
               }
             }
           }
-        } catch (err) {
-          console.error('Error in player interval:', err);
+
+          if (fadingOutRef.current && (!endTime || reportedTime < endTime - loopFadeOutSeconds - 1)) {
+            // Moved away from the end during a fade-out, e.g. by seeking back
+            fadingOutRef.current = false;
+            setPlayerVolume(baseVolumeRef.current);
+          } else if (
+            !fadingOutRef.current &&
+            !fadeInIntervalRef.current &&
+            !sleepFadeIntervalRef.current &&
+            now - volumeSetAtRef.current > VOLUME_SETTLE_MS
+          ) {
+            // Follow volume and mute changes made with YouTube's own controls
+            const playerVolume = player.getVolume();
+            const playerMuted = player.isMuted();
+            // A video that is muted from the start was muted by the browser's autoplay policy,
+            // so only a mute seen to happen during playback is the user's
+            const muteChanged = playerMuted !== mutedRef.current && (!playerMuted || playerMutedRef.current === false);
+            playerMutedRef.current = playerMuted;
+            if (playerVolume !== baseVolumeRef.current || muteChanged) {
+              baseVolumeRef.current = playerVolume;
+              if (muteChanged) {
+                mutedRef.current = playerMuted;
+              }
+              onVolumeChangeRef.current?.(playerVolume, mutedRef.current);
+            }
+          }
+        } else {
+          // Buffering or loading; the last sample can't be extrapolated from
+          playbackSampleRef.current = null;
         }
-      }, 1000); // Check once per second
-    }
+      } catch (err) {
+        console.error('Error in player poll:', err);
+      }
+
+      pollTimeoutRef.current = setTimeout(poll, delay);
+    };
+
+    poll();
 
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+      if (pollTimeoutRef.current) {
+        clearTimeout(pollTimeoutRef.current);
+        pollTimeoutRef.current = null;
       }
     };
-  }, [isPlaying, endTime, effectiveStartTime, onEnd, autoPlayEnabled]);
+  }, [isPlaying, endTime, handleSegmentEnd, repetitionSettings, setPlayerVolume, isSleepingAtSegmentEnd, sleepFadeSeconds]);
 
-  // More aggressive unmute helper function
-  const ensureVideoUnmuted = useCallback(() => {
+  // Match the player to the chosen volume and mute state. Browsers may start embedded videos
+  // muted, so keep unmuting for a moment, unless the user muted on purpose
+  const syncVolume = useCallback(() => {
     if (!playerRef.current) return;
     
     try {
       // Try multiple times to ensure unmuting works
-      const attemptUnmute = (attemptsLeft = 3) => {
-        if (!playerRef.current) return;
-        
-        // @ts-ignore - Check if muted
-        const isMuted = playerRef.current.isMuted();
-        if (isMuted) {
+      const attemptSync = (attemptsLeft = 3) => {
+        const player = playerRef.current;
+        if (!player) return;
+
+        if (mutedRef.current) {
+          if (!player.isMuted()) {
+            player.mute();
+            volumeSetAtRef.current = performance.now();
+          }
+          return;
+        }
+
+        // A running fade sets the volume itself
+        if (!fadingOutRef.current && !fadeInIntervalRef.current && !sleepFadeIntervalRef.current) {
+          setPlayerVolume(baseVolumeRef.current);
+        }
+
+        if (player.isMuted()) {
           console.log('Ensuring video is unmuted, attempts left:', attemptsLeft);
-          // @ts-ignore
-          playerRef.current.unMute();
-          // @ts-ignore - Set to reasonable volume
-          playerRef.current.setVolume(80);
+          player.unMute();
+          volumeSetAtRef.current = performance.now();
           
           // If this is not the last attempt, schedule another check
           if (attemptsLeft > 1) {
-            setTimeout(() => attemptUnmute(attemptsLeft - 1), 500);
+            setTimeout(() => attemptSync(attemptsLeft - 1), 500);
           }
         }
       };
       
-      // Start unmute attempts
-      attemptUnmute();
+      attemptSync();
     } catch (err) {
-      console.error('Error ensuring video is unmuted:', err);
+      console.error('Error syncing volume:', err);
     }
-  }, []);
+  }, [setPlayerVolume]);
+
+  // Apply volume changes made in the app, e.g. a new entry with its own volume offset
+  useEffect(() => {
+    baseVolumeRef.current = volume;
+    mutedRef.current = muted;
+    syncVolume();
+  }, [volume, muted, syncVolume]);
+
+  useEffect(() => {
+    onVolumeChangeRef.current = onVolumeChange;
+  }, [onVolumeChange]);
 
   // Update effect to watch videoId changes to handle autoplay transitions
   useEffect(() => {
     console.log('Video ID changed to:', videoId);
+    playerMutedRef.current = null;
     
-    // When video ID changes (like during autoplay), ensure it's unmuted
+    // When video ID changes (like during autoplay), ensure it plays at the chosen volume
     if (!initialLoadRef.current && playerRef.current) {
       // Short delay to allow video to start loading
       setTimeout(() => {
-        ensureVideoUnmuted();
+        syncVolume();
       }, 1000);
     }
-  }, [videoId, ensureVideoUnmuted]);
+  }, [videoId, syncVolume]);
 
   // Event handlers
+  // Read the duration, which is only known once the video has loaded
+  const updateDuration = (player: YTPlayer) => {
+    try {
+      const videoDuration = player.getDuration();
+      if (videoDuration > 0 && videoDuration !== duration) {
+        setDurationInfo({ videoId, duration: videoDuration });
+        onDurationChange?.(Math.round(videoDuration * 100) / 100);
+      }
+    } catch (err) {
+      console.error('Error reading video duration:', err);
+    }
+  };
+
   const onPlayerReady = (event: YouTubeEvent) => {
     playerRef.current = event.target;
     // Clear any previous errors
     setPlayerError(null);
+    updateDuration(event.target);
+
+    // A fade cut short by a new video must not leave its lowered volume behind
+    fadingOutRef.current = false;
+    stopFadeIn();
+    syncVolume();
     
     // Reset error counters when player loads successfully
     errorRetryAttemptsRef.current = 0;
@@ -328,14 +843,16 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
     } 
     // Handle initial load
     else if (initialLoadRef.current) {
-      ensureVideoUnmuted();
       initialLoadRef.current = false;
       
       // Start at beginning for initial load
       event.target.seekTo(effectiveStartTime, true);
-    } else {
-      // For non-initial loads (like autoplay), also ensure unmuted
-      ensureVideoUnmuted();
+    }
+    
+    try {
+      event.target.setPlaybackRate(activePlaybackRate);
+    } catch (err) {
+      console.error('Error setting playback rate:', err);
     }
     
     // Try to force setting playback quality to handle background playback better
@@ -351,17 +868,16 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
   const onStateChange = (event: YouTubeEvent) => {
     // Check player state and update isPlaying
     if (event.data === PLAYER_STATE.ENDED) {
-      if (autoPlayEnabled && onEnd && !userPausedRef.current) {
-        // Native YouTube ended event - move to next video
-        onEnd();
+      if (isSleepingAtSegmentEnd() && !userPausedRef.current) {
+        stopForSleep();
+      } else if (autoPlayEnabled && onEnd && !userPausedRef.current) {
+        // Native YouTube ended event - repeat, or move to next segment or video
+        handleSegmentEnd();
       } else if (!autoPlayEnabled) {
         // When not in autoplay mode and video ends, loop back to start
         try {
-          // @ts-ignore
-          event.target.seekTo(effectiveStartTime, true);
-          // Ensure playback continues
-          // @ts-ignore
-          event.target.playVideo();
+          // Also makes sure playback continues
+          repeatSegment();
         } catch (err) {
           console.error('Error looping video after end:', err);
         }
@@ -372,6 +888,9 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
       }
     } else if (event.data === PLAYER_STATE.PLAYING) {
       setIsPlaying(true);
+      updateDuration(event.target);
+      setPlayerError(null);
+      onPlaying?.();
       
       // Only clear user pause flag if this play event wasn't triggered by our auto-play logic
       // We can determine this by checking if we were in system pause mode
@@ -384,25 +903,18 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
         systemPausedRef.current = false;
       }
       
-      // Use the more reliable unmute helper
-      ensureVideoUnmuted();
+      // Undo any mute the browser applied, keeping the user's own
+      syncVolume();
       
       // When playback starts or resumes, also check if we're at the end time
       if (endTime && playerRef.current && !userPausedRef.current) {
         try {
-          // @ts-ignore
           const currentTime = playerRef.current.getCurrentTime();
           if (currentTime >= endTime) {
-            if (autoPlayEnabled && onEnd) {
-              systemPausedRef.current = true; // Mark as system pause to preserve user pause state
-              // Move to next video immediately if we're already past the end time
-              onEnd();
-            } else {
-              systemPausedRef.current = true; // Mark as system pause to preserve user pause state
-              // In loop mode, loop back to start
-              // @ts-ignore
-              playerRef.current.seekTo(effectiveStartTime, true);
-            }
+            // Already past the end, e.g. after a seek or buffering: end the pass as usual, so
+            // the repeat count and any rest still apply
+            handleSegmentEnd();
+            restartDeadlineRef.current = performance.now() + 1000;
           }
         } catch (err) {
           // Ignore errors
@@ -414,6 +926,7 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
       // IMPORTANT: Only set user paused flag if not a system-initiated pause
       if (!systemPausedRef.current) {
         userPausedRef.current = true;
+        previewingRef.current = false;
         console.log('User explicitly paused video - preventing auto advance');
       } else {
         // Reset system pause flag
@@ -424,11 +937,8 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
   };
   
   const onPlayerError = (event: { data: number }) => {
-    const errorCode = event.data;
-    
-    // Handle player errors
-    setPlayerError(`Video playback error: ${errorCode}`);
-    console.error(`YouTube player error: ${errorCode}`);
+    const errorInfo = getPlayerErrorInfo(event.data);
+    console.error(`YouTube player error: ${errorInfo.code} (${errorInfo.kind})`);
     
     const now = Date.now();
     
@@ -442,52 +952,30 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
     
     // Increment retry attempts
     errorRetryAttemptsRef.current++;
+
+    // Retrying can't fix a permanent error, and a transient one only gets a few tries
+    if (errorInfo.kind === 'permanent' || errorRetryAttemptsRef.current > MAX_ERROR_RETRIES) {
+      console.log(`Giving up on video ${videoId} after error ${errorInfo.code}`);
+      setPlayerError({ videoId, message: errorInfo.message, retrying: false });
+      onUnplayable?.(errorInfo);
+      return;
+    }
+
+    setPlayerError({ videoId, message: errorInfo.message, retrying: true });
     
     // Calculate backoff delay (starts at 1s, then 2s, 4s, up to max 10s)
-    let retryDelay = Math.min(1000 * Math.pow(2, errorRetryAttemptsRef.current - 1), 10000);
+    const retryDelay = Math.min(1000 * Math.pow(2, errorRetryAttemptsRef.current - 1), 10000);
     
-    // For error 150, use a shorter initial retry time
-    if (errorCode === 150) {
-      retryDelay = Math.min(500 * Math.pow(1.5, errorRetryAttemptsRef.current - 1), 5000);
-    }
-    
-    console.log(`Retrying video after error ${errorCode} in ${retryDelay}ms (attempt ${errorRetryAttemptsRef.current})`);
+    console.log(`Retrying video after error ${errorInfo.code} in ${retryDelay}ms (attempt ${errorRetryAttemptsRef.current})`);
     
     // Retry loading the video after calculated delay
     setTimeout(() => {
       try {
         if (playerRef.current) {
-          // For error 150, try cueVideoById first, which doesn't autoplay
-          // This can sometimes avoid the playback issues with error 150
-          if (errorCode === 150 && errorRetryAttemptsRef.current <= 2) {
-            // @ts-ignore
-            playerRef.current.cueVideoById({
-              videoId: videoId,
-              startSeconds: lastRecordedPlaybackTimeRef.current || effectiveStartTime,
-            });
-            
-            // Then manually play after a short delay
-            setTimeout(() => {
-              try {
-                // @ts-ignore
-                if (playerRef.current && !userPausedRef.current) {
-                  // @ts-ignore
-                  playerRef.current.playVideo();
-                }
-                // Clear error if successful
-                setPlayerError(null);
-              } catch (err) {
-                console.error('Failed to play video after cue:', err);
-              }
-            }, 1000);
-          } else {
-            // Regular reload for other errors or if error 150 persists
-            // @ts-ignore
-            playerRef.current.loadVideoById({
-              videoId: videoId,
-              startSeconds: lastRecordedPlaybackTimeRef.current || effectiveStartTime,
-            });
-          }
+          playerRef.current.loadVideoById({
+            videoId: videoId,
+            startSeconds: lastRecordedPlaybackTimeRef.current || effectiveStartTime,
+          });
         }
       } catch (err) {
         console.error('Failed to reload video after error:', err);
@@ -502,13 +990,14 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
       if (player) {
         // Clear user pause flag when play is explicitly pressed
         userPausedRef.current = false;
+        cancelRest();
         // @ts-ignore - Ignore TypeScript errors for YouTube API calls
         player.playVideo();
       }
     } catch (err) {
       console.error('Failed to play video:', err);
     }
-  }, []);
+  }, [cancelRest]);
 
   const handlePause = useCallback(() => {
     try {
@@ -516,13 +1005,14 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
       if (player) {
         // Set user pause flag when pause is explicitly pressed
         userPausedRef.current = true;
+        cancelRest();
         // @ts-ignore - Ignore TypeScript errors for YouTube API calls
         player.pauseVideo();
       }
     } catch (err) {
       console.error('Failed to pause video:', err);
     }
-  }, []);
+  }, [cancelRest]);
 
   const handleSeekToStart = useCallback(() => {
     try {
@@ -536,6 +1026,137 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
     }
   }, [effectiveStartTime]);
 
+  const showMarkMessage = useCallback((message: string) => {
+    setMarkMessage(message);
+    if (markMessageTimeoutRef.current) {
+      clearTimeout(markMessageTimeoutRef.current);
+    }
+    markMessageTimeoutRef.current = setTimeout(() => setMarkMessage(null), 2500);
+  }, []);
+
+  useEffect(() => () => {
+    if (markMessageTimeoutRef.current) {
+      clearTimeout(markMessageTimeoutRef.current);
+    }
+  }, []);
+
+  // Move the in or out point of the active segment, keeping the in point before the out point
+  const setBoundary = useCallback((boundary: LoopBoundary, time: number) => {
+    if (!activeSegment || !onTimeChange) return;
+
+    const value = Math.max(0, Math.round(time * 100) / 100);
+    if (duration > 0 && value > duration) {
+      showMarkMessage(`The video is only ${formatTime(duration)} long`);
+      return;
+    }
+    if (boundary === 'startTime') {
+      if (endTime != null && value >= endTime) {
+        showMarkMessage('The in point must be before the out point');
+        return;
+      }
+    } else if (value <= (startTime || 0)) {
+      showMarkMessage('The out point must be after the in point');
+      return;
+    }
+
+    onTimeChange(activeSegment.id, boundary, value);
+  }, [activeSegment, onTimeChange, startTime, endTime, duration, showMarkMessage]);
+
+  // Capture the current position as the in or out point
+  const handleMark = useCallback((boundary: LoopBoundary) => {
+    if (!playerRef.current) return;
+
+    try {
+      setBoundary(boundary, playerRef.current.getCurrentTime());
+    } catch (err) {
+      console.error('Failed to read the current time:', err);
+    }
+  }, [setBoundary]);
+
+  const handleNudge = useCallback((boundary: LoopBoundary, delta: number) => {
+    const current = boundary === 'startTime' ? effectiveStartTime : endTime;
+    if (current == null) return;
+    setBoundary(boundary, current + delta);
+  }, [effectiveStartTime, endTime, setBoundary]);
+
+  // Jump to a point picked on the timeline
+  const handleSeek = useCallback((time: number) => {
+    if (!playerRef.current) return;
+
+    try {
+      playerRef.current.seekTo(time, true);
+      setCurrentTime(time);
+    } catch (err) {
+      console.error('Failed to seek:', err);
+    }
+  }, []);
+
+  // Play up to the out point from just before it
+  const handlePreviewEnd = useCallback(() => {
+    if (!playerRef.current || endTime == null) return;
+
+    try {
+      previewingRef.current = true;
+      userPausedRef.current = false;
+      playerRef.current.seekTo(Math.max(effectiveStartTime, endTime - PREVIEW_SECONDS), true);
+      playerRef.current.playVideo();
+    } catch (err) {
+      previewingRef.current = false;
+      console.error('Failed to preview the out point:', err);
+    }
+  }, [effectiveStartTime, endTime]);
+
+  // Lock screen and headset controls. Next and previous track are handled by App
+  useEffect(() => {
+    const seekBy = (offset: number) => {
+      if (!playerRef.current) return;
+      handleSeek(Math.max(0, playerRef.current.getCurrentTime() + offset));
+    };
+
+    return setMediaActionHandlers({
+      play: handlePlay,
+      pause: handlePause,
+      seekto: (details) => {
+        if (details.seekTime !== undefined) handleSeek(details.seekTime);
+      },
+      seekbackward: (details) => seekBy(-(details.seekOffset || 10)),
+      seekforward: (details) => seekBy(details.seekOffset || 10)
+    });
+  }, [handlePlay, handlePause, handleSeek]);
+
+  // Keep the system media controls showing the right state and position
+  useEffect(() => {
+    setMediaPlaybackState(isPlaying, duration, currentTime, activePlaybackRate);
+  }, [isPlaying, duration, currentTime, activePlaybackRate]);
+
+  // Player shortcuts from the keymap. Playlist shortcuts are handled by App
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = getShortcutAction(e, keymap);
+      if (action === 'playPause') {
+        if (isPlaying) {
+          handlePause();
+        } else {
+          handlePlay();
+        }
+      } else if (action === 'restart') {
+        handleSeekToStart();
+      } else if (action === 'markIn' && onTimeChange) {
+        handleMark('startTime');
+      } else if (action === 'markOut' && onTimeChange) {
+        handleMark('endTime');
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [keymap, isPlaying, handlePlay, handlePause, handleSeekToStart, onTimeChange, handleMark]);
+
   // Style objects - moved outside the render for better performance
   const containerStyle: React.CSSProperties = {
     width: '100%',
@@ -582,6 +1203,11 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
     gap: '8px'
   };
 
+  const volumeSliderStyle: React.CSSProperties = {
+    width: isMobile.current ? '80px' : '100px',
+    cursor: 'pointer'
+  };
+
   const buttonStyle: React.CSSProperties = {
     backgroundColor: '#4a5568',
     color: 'white',
@@ -601,6 +1227,25 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
     fontSize: '14px'
   };
 
+  const debugReadoutStyle: React.CSSProperties = {
+    color: '#a0aec0',
+    fontFamily: 'monospace',
+    fontSize: '12px',
+    marginTop: '-12px',
+    marginBottom: '20px',
+    padding: '0 10px'
+  };
+
+  const speedLabelStyle: React.CSSProperties = {
+    color: '#fbd38d',
+    marginRight: '10px'
+  };
+
+  const segmentLabelStyle: React.CSSProperties = {
+    color: '#90cdf4',
+    marginRight: '10px'
+  };
+
   const errorMessageStyle: React.CSSProperties = {
     position: 'absolute',
     top: '50%',
@@ -630,14 +1275,31 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
           </div>
           {playerError && (
             <div style={errorMessageStyle}>
-              {playerError}. Retrying...
+              {playerError.message}{playerError.retrying ? '. Retrying...' : ''}
             </div>
           )}
         </div>
       </div>
+
+      {duration > 0 && (
+        <LoopTimeline
+          duration={duration}
+          currentTime={currentTime}
+          startTime={startTime ?? null}
+          endTime={endTime ?? null}
+          onSeek={handleSeek}
+          onChange={setBoundary}
+          isMobile={isMobile.current}
+        />
+      )}
       
       <div style={controlsStyle}>
         <div style={buttonGroupStyle}>
+          {onPrevious && (
+            <button style={{...buttonStyle, backgroundColor: '#4a5568'}} onClick={onPrevious} title="Play the previous loop">
+              Previous
+            </button>
+          )}
           {isPlaying ? (
             <button style={{...buttonStyle, backgroundColor: '#e53e3e'}} onClick={handlePause}>
               Pause
@@ -650,11 +1312,81 @@ const YouTubePlayer: React.FC<YouTubePlayerProps> = memo(({
           <button style={{...buttonStyle, backgroundColor: '#ed8936'}} onClick={handleSeekToStart}>
             Restart
           </button>
+          {onNext && (
+            <button style={{...buttonStyle, backgroundColor: '#4a5568'}} onClick={onNext} title="Play the next loop">
+              Next
+            </button>
+          )}
+          {onVolumeChange && (
+            <>
+              <button
+                style={{...buttonStyle, backgroundColor: muted ? '#e53e3e' : '#4a5568'}}
+                onClick={() => onVolumeChange(volume, !muted)}
+                aria-pressed={muted}
+              >
+                {muted ? 'Unmute' : 'Mute'}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={volume}
+                onChange={(e) => onVolumeChange(Number(e.target.value), false)}
+                style={volumeSliderStyle}
+                aria-label="Volume"
+                title={`Volume ${volume}`}
+              />
+            </>
+          )}
         </div>
         <div style={timeDisplayStyle}>
-          {formatTime(currentTime)} {endTime ? `/ ${formatTime(endTime)}` : ''}
+          {speedTrainer ? (
+            <span style={speedLabelStyle} title="Speed trainer">
+              {formatPlaybackRate(activePlaybackRate)}
+              {loopsUntilNextStep === null
+                ? ' (target reached)'
+                : ` → ${formatPlaybackRate(speedTrainer.targetRate)}, next step in ${loopsUntilNextStep} ${loopsUntilNextStep === 1 ? 'loop' : 'loops'}`}
+            </span>
+          ) : activePlaybackRate !== 1 && (
+            <span style={speedLabelStyle}>{formatPlaybackRate(activePlaybackRate)}</span>
+          )}
+          {restPhase && (
+            <span style={speedLabelStyle}>{restPhase === 'gap' ? 'Pause…' : 'Count-in…'}</span>
+          )}
+          {(autoPlayEnabled ? repeatCount > 1 : loopPass > 1) && (
+            <span style={segmentLabelStyle}>
+              Loop {loopPass}{autoPlayEnabled && ` of ${repeatCount}`}
+            </span>
+          )}
+          {segments.length > 1 && activeSegment && (
+            <span style={segmentLabelStyle}>
+              {activeSegment.name} ({activeSegmentIndex + 1}/{segments.length})
+            </span>
+          )}
+          {formatTime(Math.floor(currentTime))} {endTime ? `/ ${formatTime(endTime)}` : ''}
         </div>
       </div>
+      {onTimeChange && activeSegment && (
+        <LoopMarkers
+          startTime={startTime ?? null}
+          endTime={endTime ?? null}
+          onMark={handleMark}
+          onNudge={handleNudge}
+          onPreviewEnd={handlePreviewEnd}
+          message={markMessage}
+          hotkeys={{ startTime: keymap.markIn, endTime: keymap.markOut }}
+          isMobile={isMobile.current}
+        />
+      )}
+      {LOOP_DEBUG && (
+        <div style={debugReadoutStyle}>
+          Loop overshoot: {overshootStats.count === 0 ? 'no wraps yet' : (
+            `last ${overshootStats.last.toFixed(0)} ms, ` +
+            `avg ${overshootStats.average.toFixed(1)} ms, ` +
+            `max ${overshootStats.max.toFixed(0)} ms over ${overshootStats.count} wraps`
+          )}
+        </div>
+      )}
     </div>
   );
 });
@@ -1,3 +1,24 @@
+/**
+ * Represents a named loop region within a playlist entry
+ */
+export interface Segment {
+  id: string;
+  name: string;
+  startTime: number | null;
+  endTime: number | null;
+}
+
+/**
+ * Gradually raises the playback speed while a segment loops
+ */
+export interface SpeedTrainer {
+  startRate: number;
+  // Added to the rate every loopsPerStep loops, until targetRate is reached
+  step: number;
+  loopsPerStep: number;
+  targetRate: number;
+}
+
 /**
  * Represents a YouTube video in the playlist
  */
@@ -5,7 +26,39 @@ export interface Video {
   id: string;
   videoId: string;
   url: string;
+  // Title from YouTube, refreshed when it couldn't be fetched at first
   title: string;
-  startTime: number | null;
-  endTime: number | null;
-} 
\ No newline at end of file
+  // Label chosen by the user, shown instead of the title and never replaced by a refresh
+  customTitle?: string;
+  segments: Segment[];
+  // Playback speed, normal speed (1) if not set
+  playbackRate?: number;
+  speedTrainer?: SpeedTrainer | null;
+  // Times auto play plays each loop before moving on; the app default if not set
+  repeatCount?: number | null;
+  // Added to the master volume so quiet and loud sources play at a similar level
+  volumeOffset?: number;
+  // Details filled in from YouTube when the entry is added or first played
+  duration?: number;
+  author?: string;
+  thumbnailUrl?: string;
+  // Set when the player found the video can never be played, e.g. embedding is disabled
+  unavailable?: { code: number; message: string } | null;
+}
+
+/**
+ * Where auto play goes once an entry has finished
+ */
+export type AutoPlayMode = 'once' | 'repeatAll' | 'repeatOne' | 'shuffle';
+
+/**
+ * A named set of videos with its own playback state
+ */
+export interface SavedPlaylist {
+  id: string;
+  name: string;
+  videos: Video[];
+  currentVideoId: string | null;
+  autoPlayEnabled: boolean;
+  autoPlayMode: AutoPlayMode;
+}
\ No newline at end of file
@@ -6,4 +6,26 @@ interface Window {
       PAUSED: number;
     };
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * The subset of the YouTube IFrame API player used by the app
+ */
+interface YTPlayer {
+  playVideo(): void;
+  pauseVideo(): void;
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+  loadVideoById(options: { videoId: string; startSeconds?: number }): void;
+  cueVideoById(options: { videoId: string; startSeconds?: number }): void;
+  getCurrentTime(): number;
+  getDuration(): number;
+  getPlayerState(): number;
+  getPlaybackRate(): number;
+  setPlaybackRate(suggestedRate: number): void;
+  isMuted(): boolean;
+  mute(): void;
+  unMute(): void;
+  getVolume(): number;
+  setVolume(volume: number): void;
+  setPlaybackQuality(quality: string): void;
+}
\ No newline at end of file
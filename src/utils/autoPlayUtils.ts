@@ -0,0 +1,66 @@
+import { AutoPlayMode, Video } from '../types';
+
+export const DEFAULT_AUTO_PLAY_MODE: AutoPlayMode = 'repeatAll';
+
+// Modes in the order they are offered, with what each does once an entry ends
+export const AUTO_PLAY_MODES: { mode: AutoPlayMode; label: string; description: string }[] = [
+  { mode: 'once', label: 'Play once', description: 'then the next video, stopping after the last one' },
+  { mode: 'repeatAll', label: 'Repeat all', description: 'then the next video, starting over after the last one' },
+  { mode: 'repeatOne', label: 'Repeat one', description: 'then the same video again' },
+  { mode: 'shuffle', label: 'Shuffle', description: 'then a random video, each once before reshuffling' }
+];
+
+export const isAutoPlayMode = (value: unknown): value is AutoPlayMode =>
+  AUTO_PLAY_MODES.some(({ mode }) => mode === value);
+
+/**
+ * A random order of the entries' IDs, starting with firstId if given
+ */
+export const createShuffleOrder = (videos: Video[], firstId?: string | null): string[] => {
+  const ids = videos.map(video => video.id).filter(id => id !== firstId);
+
+  // Fisher-Yates
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+
+  return firstId && videos.some(video => video.id === firstId) ? [firstId, ...ids] : ids;
+};
+
+/**
+ * Brings a shuffle order up to date with the playlist: removed entries are dropped and
+ * new ones are added at the end, in random order, so the rest of the order stays as it was
+ */
+export const syncShuffleOrder = (order: string[], videos: Video[]): string[] => {
+  const kept = order.filter(id => videos.some(video => video.id === id));
+  const added = createShuffleOrder(videos.filter(video => !kept.includes(video.id)));
+  return [...kept, ...added];
+};
+
+/**
+ * Entries auto play will move through after the current one, in order, skipping unavailable
+ * ones. For repeat all this is one full cycle, ending with the current entry; for shuffle it
+ * ends where the order would be reshuffled
+ */
+export const getUpcomingVideos = (
+  videos: Video[],
+  currentId: string | null,
+  mode: AutoPlayMode,
+  shuffleOrder: string[]
+): Video[] => {
+  if (mode === 'repeatOne') return [];
+
+  const order = mode === 'shuffle'
+    ? shuffleOrder
+      .map(id => videos.find(video => video.id === id))
+      .filter((video): video is Video => !!video)
+    : videos;
+
+  const currentIndex = order.findIndex(video => video.id === currentId);
+  const upcoming = mode === 'repeatAll' && currentIndex >= 0
+    ? [...order.slice(currentIndex + 1), ...order.slice(0, currentIndex + 1)]
+    : order.slice(currentIndex + 1);
+
+  return upcoming.filter(video => !video.unavailable);
+};
@@ -0,0 +1,91 @@
+import { parseTimeInput } from './timeUtils';
+import { parseYouTubeUrl } from './youtubeUrlUtils';
+
+/**
+ * One pasted line, parsed into the parts needed to add it
+ */
+export interface BulkLine {
+  lineNumber: number;
+  text: string;
+  url: string;
+  videoId: string | null;
+  startTime: number | null;
+  endTime: number | null;
+  // Custom title given on the line, if any
+  title: string | null;
+  error: string | null;
+}
+
+// Two times separated by a hyphen, en dash or em dash. Either side may be left out,
+// and the end may be relative to the start (1:02-+15)
+const RANGE_PATTERN = /^([\d:.hms]*)[-–—](\+?[\d:.hms]*)$/;
+// A single time like 1:02 or 1:02.5, as opposed to a title word
+const SINGLE_TIME_PATTERN = /^\d+(:\d+){1,2}(\.\d+)?$/;
+
+/**
+ * Parses one line of the form `<url> [start-end] [title]`
+ */
+const parseLine = (text: string, lineNumber: number): BulkLine => {
+  const [url, ...rest] = text.split(/\s+/);
+  const line: BulkLine = {
+    lineNumber,
+    text,
+    url,
+    videoId: null,
+    startTime: null,
+    endTime: null,
+    title: null,
+    error: null
+  };
+
+  const parsedUrl = parseYouTubeUrl(url);
+  if (!parsedUrl.ok) {
+    return { ...line, error: parsedUrl.error };
+  }
+  line.videoId = parsedUrl.videoId;
+  // Store a real link for lines that gave just the video ID
+  if (url === parsedUrl.videoId) {
+    line.url = `https://www.youtube.com/watch?v=${parsedUrl.videoId}`;
+  }
+  line.startTime = parsedUrl.startTime;
+  line.endTime = parsedUrl.endTime;
+
+  // A time range, or a lone start time, may follow the URL
+  const timeToken = rest[0] || '';
+  const rangeMatch = timeToken.match(RANGE_PATTERN);
+  if ((rangeMatch && (rangeMatch[1] || rangeMatch[2])) || SINGLE_TIME_PATTERN.test(timeToken)) {
+    rest.shift();
+    const startTime = parseTimeInput(rangeMatch ? rangeMatch[1] : timeToken);
+    if (!startTime.ok) {
+      return { ...line, error: `Start time: ${startTime.error}` };
+    }
+
+    if (rangeMatch) {
+      const endTime = parseTimeInput(rangeMatch[2], { relativeTo: startTime.seconds });
+      if (!endTime.ok) {
+        return { ...line, error: `End time: ${endTime.error}` };
+      }
+      line.endTime = endTime.seconds;
+    }
+    line.startTime = startTime.seconds;
+  }
+
+  if (line.startTime !== null && line.endTime !== null && line.endTime <= line.startTime) {
+    return { ...line, error: 'End time must be after start time' };
+  }
+
+  const title = rest.join(' ').trim();
+  line.title = title || null;
+  return line;
+};
+
+/**
+ * Parses pasted text, one entry per line. Blank lines and lines starting with # are ignored.
+ */
+export const parseBulkText = (text: string): BulkLine[] => {
+  return text
+    .split(/\r?\n/)
+    .map((rawLine, index) => ({ rawLine: rawLine.trim(), lineNumber: index + 1 }))
+    .filter(({ rawLine }) => rawLine && !rawLine.startsWith('#'))
+    .map(({ rawLine, lineNumber }) => parseLine(rawLine, lineNumber));
+};
\ No newline at end of file
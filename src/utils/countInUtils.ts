@@ -0,0 +1,63 @@
+// Shared across count-ins; browsers limit how many contexts a page may create
+let audioContext: AudioContext | null = null;
+
+// Length of each click, in seconds
+const CLICK_LENGTH = 0.05;
+
+const getAudioContext = (): AudioContext | null => {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext ||
+      (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return null;
+    audioContext = new AudioContextClass();
+  }
+  return audioContext;
+};
+
+/**
+ * How long a count-in lasts in milliseconds, up to the beat where playback comes in
+ */
+export const getCountInDuration = (beats: number, bpm: number): number => (beats * 60000) / bpm;
+
+/**
+ * Plays a count-in of clicks, the first one higher like a metronome's downbeat.
+ * Returns a function that silences any clicks still to come.
+ */
+export const playCountIn = (beats: number, bpm: number): (() => void) => {
+  const context = getAudioContext();
+  if (!context || beats <= 0) return () => {};
+
+  // The context starts suspended until the page has had a user gesture
+  if (context.state === 'suspended') {
+    context.resume().catch(err => console.error('Failed to resume audio for count-in:', err));
+  }
+
+  const beatLength = 60 / bpm;
+  const oscillators: OscillatorNode[] = [];
+
+  for (let beat = 0; beat < beats; beat++) {
+    const time = context.currentTime + beat * beatLength;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.frequency.value = beat === 0 ? 1500 : 1000;
+    gain.gain.setValueAtTime(0.5, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + CLICK_LENGTH);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(time);
+    oscillator.stop(time + CLICK_LENGTH);
+    oscillators.push(oscillator);
+  }
+
+  return () => {
+    oscillators.forEach(oscillator => {
+      try {
+        oscillator.stop();
+      } catch {
+        // Already finished
+      }
+    });
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { buildExportDocument, parseExportDocument } from './exportUtils';
+import { createPlaylist } from './playlistUtils';
+import { DEFAULT_SETTINGS } from './settingsUtils';
+import { DEFAULT_KEYMAP } from './keymapUtils';
+
+const settings = {
+  app: { ...DEFAULT_SETTINGS, defaultRepeatCount: 3, gapSeconds: 2, fadeOutSeconds: 1.5 },
+  volume: { masterVolume: 40, muted: true },
+  keymap: { ...DEFAULT_KEYMAP, next: 'ArrowRight' }
+};
+
+describe('export settings', () => {
+  it('reads back the settings it wrote', () => {
+    const exported = JSON.parse(JSON.stringify(buildExportDocument([createPlaylist('Practice')], settings)));
+    expect(parseExportDocument(exported).settings).toEqual(settings);
+  });
+
+  it('reads documents without settings', () => {
+    const exported = JSON.parse(JSON.stringify(buildExportDocument([createPlaylist('Practice')])));
+    expect(parseExportDocument(exported).settings).toBeNull();
+  });
+
+  it('keeps only the valid settings', () => {
+    const exported = {
+      ...buildExportDocument([]),
+      settings: {
+        app: { defaultRepeatCount: 0, gapSeconds: 2 },
+        volume: { masterVolume: 400, muted: false },
+        keymap: { next: 42, previous: 'b' }
+      }
+    };
+    expect(parseExportDocument(exported).settings).toEqual({
+      app: { gapSeconds: 2 },
+      volume: { muted: false },
+      keymap: { previous: 'b' }
+    });
+  });
+});
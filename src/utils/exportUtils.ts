@@ -0,0 +1,356 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AutoPlayMode, SavedPlaylist, Segment, SpeedTrainer, Video } from '../types';
+import { createPlaylist, DEFAULT_PLAYLIST_NAME } from './playlistUtils';
+import { createSegment, getDefaultSegmentName } from './segmentUtils';
+import { isPlaybackRate, isSpeedTrainer } from './speedUtils';
+import { AppSettings, isRepeatCount, readSettings } from './settingsUtils';
+import { VolumeSettings, isVolumeOffset, readVolumeSettings } from './volumeUtils';
+import { Keymap, readKeymap } from './keymapUtils';
+import { UNKNOWN_TITLE } from './youtubeUtils';
+import { isAutoPlayMode } from './autoPlayUtils';
+
+// Identifies our export files, and the document version written by this build
+export const EXPORT_FORMAT = 'misterlooperz-playlists';
+export const EXPORT_VERSION = 1;
+
+/**
+ * A segment as written to an export file
+ */
+interface ExportedSegment {
+  name: string;
+  startTime: number | null;
+  endTime: number | null;
+}
+
+/**
+ * An entry as written to an export file
+ */
+interface ExportedVideo {
+  videoId: string;
+  url: string;
+  title: string;
+  customTitle?: string;
+  segments: ExportedSegment[];
+  playbackRate?: number;
+  speedTrainer?: SpeedTrainer | null;
+  repeatCount?: number | null;
+  volumeOffset?: number;
+  duration?: number;
+  author?: string;
+  thumbnailUrl?: string;
+}
+
+/**
+ * A playlist as written to an export file
+ */
+interface ExportedPlaylist {
+  name: string;
+  autoPlayEnabled: boolean;
+  autoPlayMode?: AutoPlayMode;
+  videos: ExportedVideo[];
+}
+
+/**
+ * The app-wide preferences that travel with an export
+ */
+export interface ExportedSettings {
+  app: AppSettings;
+  volume: VolumeSettings;
+  keymap: Keymap;
+}
+
+/**
+ * The versioned document written by Export and read by Import. Settings are optional, so
+ * older files and share links still read
+ */
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  playlists: ExportedPlaylist[];
+  settings?: ExportedSettings;
+}
+
+/**
+ * Settings read from an import. Only the valid values found are kept, so each part may be
+ * incomplete
+ */
+export interface ImportedSettings {
+  app: Partial<AppSettings>;
+  volume: Partial<VolumeSettings>;
+  keymap: Partial<Keymap>;
+}
+
+/**
+ * Result of reading an import: the usable playlists plus a message for every rejected row,
+ * and the settings if the document has any
+ */
+export interface ImportPreview {
+  playlists: SavedPlaylist[];
+  errors: string[];
+  settings: ImportedSettings | null;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * Builds the export document for the given playlists, and the settings if given
+ */
+export const buildExportDocument = (playlists: SavedPlaylist[], settings?: ExportedSettings): ExportDocument => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings,
+  playlists: playlists.map(playlist => ({
+    name: playlist.name,
+    autoPlayEnabled: playlist.autoPlayEnabled,
+    autoPlayMode: playlist.autoPlayMode,
+    videos: playlist.videos.map(video => ({
+      videoId: video.videoId,
+      url: video.url,
+      title: video.title,
+      customTitle: video.customTitle,
+      segments: video.segments.map(({ name, startTime, endTime }) => ({ name, startTime, endTime })),
+      playbackRate: video.playbackRate,
+      speedTrainer: video.speedTrainer,
+      repeatCount: video.repeatCount,
+      volumeOffset: video.volumeOffset,
+      duration: video.duration,
+      author: video.author,
+      thumbnailUrl: video.thumbnailUrl
+    }))
+  }))
+});
+
+/**
+ * Downloads the given playlists and settings as a JSON file
+ */
+export const downloadExport = (playlists: SavedPlaylist[], settings?: ExportedSettings): void => {
+  const json = JSON.stringify(buildExportDocument(playlists, settings), null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `misterlooperz-${new Date().toISOString().slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const isTime = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+/**
+ * Validates one exported segment, returning an error message if it can't be used
+ */
+const readSegment = (raw: unknown, index: number): Segment | string => {
+  if (!raw || typeof raw !== 'object') return `segment ${index + 1} is not an object`;
+
+  const { name, startTime = null, endTime = null } = raw as Partial<ExportedSegment>;
+  if (!isTime(startTime)) return `segment ${index + 1} has an invalid start time`;
+  if (!isTime(endTime)) return `segment ${index + 1} has an invalid end time`;
+  if (startTime !== null && endTime !== null && endTime <= startTime) {
+    return `segment ${index + 1} ends before it starts`;
+  }
+
+  return createSegment(
+    startTime,
+    endTime,
+    typeof name === 'string' && name.trim() ? name : getDefaultSegmentName(index)
+  );
+};
+
+/**
+ * Validates one exported entry, returning an error message if it can't be used
+ */
+const readVideo = (raw: unknown): Video | string => {
+  if (!raw || typeof raw !== 'object') return 'entry is not an object';
+
+  const {
+    videoId,
+    url,
+    title,
+    customTitle,
+    segments,
+    playbackRate,
+    speedTrainer,
+    repeatCount,
+    volumeOffset,
+    duration,
+    author,
+    thumbnailUrl
+  } = raw as Partial<ExportedVideo>;
+  if (typeof videoId !== 'string' || !/^[\w-]{11}$/.test(videoId)) return 'missing or invalid videoId';
+  if (segments !== undefined && !Array.isArray(segments)) return 'segments must be a list';
+  if (playbackRate !== undefined && !isPlaybackRate(playbackRate)) return 'invalid playback speed';
+  if (speedTrainer !== undefined && speedTrainer !== null && !isSpeedTrainer(speedTrainer)) {
+    return 'invalid speed trainer settings';
+  }
+  if (repeatCount !== undefined && repeatCount !== null && !isRepeatCount(repeatCount)) return 'invalid repeat count';
+  if (volumeOffset !== undefined && !isVolumeOffset(volumeOffset)) return 'invalid volume offset';
+  if (duration !== undefined && !(typeof duration === 'number' && Number.isFinite(duration) && duration > 0)) {
+    return 'invalid duration';
+  }
+
+  const readSegments = (segments && segments.length > 0 ? segments : [{}]).map(readSegment);
+  const segmentError = readSegments.find((segment): segment is string => typeof segment === 'string');
+  if (segmentError) return segmentError;
+
+  return {
+    id: uuidv4(),
+    videoId,
+    url: typeof url === 'string' && url ? url : `https://www.youtube.com/watch?v=${videoId}`,
+    title: typeof title === 'string' && title ? title : UNKNOWN_TITLE,
+    customTitle: typeof customTitle === 'string' && customTitle.trim() ? customTitle.trim() : undefined,
+    segments: readSegments as Segment[],
+    playbackRate,
+    speedTrainer,
+    repeatCount,
+    volumeOffset,
+    duration,
+    // Details are only for display, so unusable ones are dropped rather than refused
+    author: typeof author === 'string' && author ? author : undefined,
+    thumbnailUrl: typeof thumbnailUrl === 'string' && /^https:\/\//.test(thumbnailUrl) ? thumbnailUrl : undefined
+  };
+};
+
+/**
+ * Reads the settings block of an export document, or null if there isn't one
+ */
+const readExportedSettings = (raw: unknown): ImportedSettings | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const { app, volume, keymap } = raw as Partial<Record<keyof ExportedSettings, unknown>>;
+  return {
+    app: readSettings(app),
+    volume: readVolumeSettings(volume),
+    keymap: readKeymap(keymap)
+  };
+};
+
+/**
+ * Parses and validates an export document.
+ * Bad rows are skipped and reported; a document that can't be read at all throws.
+ */
+export const parseExportDocument = (raw: unknown): ImportPreview => {
+  if (!raw || typeof raw !== 'object' || (raw as ExportDocument).format !== EXPORT_FORMAT) {
+    throw new Error('This is not a MisterLooperz export file');
+  }
+
+  const exportDocument = raw as ExportDocument;
+  if (typeof exportDocument.version !== 'number' || exportDocument.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version: ${exportDocument.version}. Please update the app.`);
+  }
+  if (!Array.isArray(exportDocument.playlists)) {
+    throw new Error('The export file has no playlists');
+  }
+
+  const errors: string[] = [];
+  const playlists = exportDocument.playlists.map((rawPlaylist, playlistIndex) => {
+    const name = typeof rawPlaylist?.name === 'string' && rawPlaylist.name.trim()
+      ? rawPlaylist.name
+      : `${DEFAULT_PLAYLIST_NAME} ${playlistIndex + 1}`;
+    const rows: unknown[] = Array.isArray(rawPlaylist?.videos) ? rawPlaylist.videos : [];
+
+    const videos: Video[] = [];
+    rows.forEach((row, rowIndex) => {
+      const video = readVideo(row);
+      if (typeof video === 'string') {
+        errors.push(`"${name}", row ${rowIndex + 1}: ${video}`);
+      } else {
+        videos.push(video);
+      }
+    });
+
+    const playlist = createPlaylist(name, videos);
+    playlist.autoPlayEnabled = rawPlaylist?.autoPlayEnabled === true;
+    if (isAutoPlayMode(rawPlaylist?.autoPlayMode)) {
+      playlist.autoPlayMode = rawPlaylist.autoPlayMode;
+    }
+    return playlist;
+  });
+
+  return { playlists, errors, settings: readExportedSettings(exportDocument.settings) };
+};
+
+/**
+ * Reads an import file's text into a preview
+ */
+export const parseImportFile = (text: string): ImportPreview => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  return parseExportDocument(raw);
+};
+
+/**
+ * Identifies an entry by its video and time ranges, for duplicate detection
+ */
+export const getVideoKey = (video: Video): string =>
+  `${video.videoId}|${video.segments.map(segment => `${segment.startTime ?? ''}-${segment.endTime ?? ''}`).join(',')}`;
+
+/**
+ * Applies imported playlists to the existing ones.
+ * Merge adds entries into the playlist with the same name, skipping duplicates;
+ * replace discards the existing playlists.
+ */
+export const applyImport = (
+  existing: SavedPlaylist[],
+  imported: SavedPlaylist[],
+  mode: ImportMode
+): { playlists: SavedPlaylist[]; added: number; duplicates: number } => {
+  let added = 0;
+  let duplicates = 0;
+
+  // Drop duplicates within each imported playlist as well
+  const dedupe = (videos: Video[], seen: Set<string>): Video[] => videos.filter(video => {
+    const key = getVideoKey(video);
+    if (seen.has(key)) {
+      duplicates++;
+      return false;
+    }
+    seen.add(key);
+    added++;
+    return true;
+  });
+
+  if (mode === 'replace') {
+    const playlists = imported.map(playlist => {
+      const videos = dedupe(playlist.videos, new Set());
+      return { ...playlist, videos, currentVideoId: videos.length > 0 ? videos[0].id : null };
+    });
+    // There is always at least one playlist
+    if (playlists.length === 0) {
+      playlists.push(createPlaylist(DEFAULT_PLAYLIST_NAME));
+    }
+    return { playlists, added, duplicates };
+  }
+
+  const playlists = [...existing];
+  imported.forEach(importedPlaylist => {
+    const index = playlists.findIndex(playlist => playlist.name === importedPlaylist.name);
+
+    if (index === -1) {
+      const videos = dedupe(importedPlaylist.videos, new Set());
+      playlists.push({ ...importedPlaylist, videos, currentVideoId: videos.length > 0 ? videos[0].id : null });
+      return;
+    }
+
+    const target = playlists[index];
+    const videos = dedupe(importedPlaylist.videos, new Set(target.videos.map(getVideoKey)));
+    playlists[index] = {
+      ...target,
+      videos: [...target.videos, ...videos],
+      currentVideoId: target.currentVideoId ?? (videos.length > 0 ? videos[0].id : null)
+    };
+  });
+
+  return { playlists, added, duplicates };
+};
\ No newline at end of file
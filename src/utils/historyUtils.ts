@@ -0,0 +1,124 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Segment, Video } from '../types';
+import { getVideoTitle } from './youtubeUtils';
+
+/**
+ * One loop that was played. Holds a copy of what it needs to be listed, so it can still be
+ * shown after the entry is removed from its playlist
+ */
+export interface HistoryEntry {
+  id: string;
+  playedAt: number;
+  playlistId: string;
+  entryId: string;
+  segmentId: string | null;
+  videoId: string;
+  title: string;
+  segmentName: string | null;
+  startTime: number | null;
+  endTime: number | null;
+}
+
+const HISTORY_KEY = 'playHistory';
+
+// Most loops kept in the history, newest first
+export const MAX_HISTORY = 50;
+
+// Loops listed under Recently Played
+export const RECENTLY_PLAYED_COUNT = 20;
+
+/**
+ * Adds a played loop to the front of the history. Playing the same loop again straight
+ * away only updates its time
+ */
+export const addHistoryEntry = (
+  history: HistoryEntry[],
+  playlistId: string,
+  video: Video,
+  segment: Segment | null,
+  playedAt: number = Date.now()
+): HistoryEntry[] => {
+  const [latest, ...rest] = history;
+  if (latest && latest.entryId === video.id && latest.segmentId === (segment?.id ?? null)) {
+    return [{ ...latest, playedAt }, ...rest];
+  }
+
+  const entry: HistoryEntry = {
+    id: uuidv4(),
+    playedAt,
+    playlistId,
+    entryId: video.id,
+    segmentId: segment?.id ?? null,
+    videoId: video.videoId,
+    title: getVideoTitle(video),
+    segmentName: video.segments.length > 1 && segment ? segment.name : null,
+    startTime: segment?.startTime ?? null,
+    endTime: segment?.endTime ?? null
+  };
+  return [entry, ...history].slice(0, MAX_HISTORY);
+};
+
+/**
+ * Describes how long ago something happened, e.g. "just now", "5 min ago" or "3 days ago"
+ */
+export const formatTimeAgo = (time: number, now: number = Date.now()): string => {
+  const minutes = Math.floor((now - time) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} ${hours === 1 ? 'hour' : 'hours'} ago`;
+
+  const days = Math.floor(hours / 24);
+  return `${days} ${days === 1 ? 'day' : 'days'} ago`;
+};
+
+const isHistoryEntry = (value: unknown): value is HistoryEntry => {
+  const entry = value as HistoryEntry;
+  return !!entry &&
+    typeof entry.id === 'string' &&
+    typeof entry.playedAt === 'number' &&
+    typeof entry.entryId === 'string' &&
+    typeof entry.videoId === 'string' &&
+    typeof entry.title === 'string';
+};
+
+/**
+ * Loads the saved history, dropping anything that doesn't look like an entry
+ */
+export const loadHistory = (): HistoryEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(isHistoryEntry).slice(0, MAX_HISTORY) : [];
+  } catch (error) {
+    console.error('Failed to load play history:', error);
+    return [];
+  }
+};
+
+export const saveHistory = (history: HistoryEntry[]): void => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+};
+
+/**
+ * The playlist entry and segment a history entry refers to, or null if it is gone.
+ * An entry removed and added again is found by its video and loop times
+ */
+export const findHistoryTarget = (
+  entry: HistoryEntry,
+  playlistId: string,
+  videos: Video[]
+): { video: Video; segmentId: string | null } | null => {
+  const sameEntry = entry.playlistId === playlistId ? videos.find(video => video.id === entry.entryId) : undefined;
+  if (sameEntry) {
+    const segmentExists = sameEntry.segments.some(segment => segment.id === entry.segmentId);
+    return { video: sameEntry, segmentId: segmentExists ? entry.segmentId : null };
+  }
+
+  for (const video of videos) {
+    if (video.videoId !== entry.videoId) continue;
+    const segment = video.segments.find(s => s.startTime === entry.startTime && s.endTime === entry.endTime);
+    if (segment) return { video, segmentId: segment.id };
+  }
+  return null;
+};
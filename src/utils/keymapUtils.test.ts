@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KEYMAP, applyBindings, readKeymap } from './keymapUtils';
+
+describe('readKeymap', () => {
+  it('keeps bindings for known actions', () => {
+    expect(readKeymap({ next: 'ArrowRight', previous: 'Shift+P', unknown: 'x' })).toEqual({
+      next: 'ArrowRight',
+      previous: 'Shift+P'
+    });
+  });
+
+  it('drops empty, reserved and non-string bindings', () => {
+    expect(readKeymap({ next: '', previous: '?', restart: 'Escape', markIn: 'Tab', markOut: 5 })).toEqual({});
+  });
+
+  it('reads nothing from a value that is not an object', () => {
+    expect(readKeymap(null)).toEqual({});
+    expect(readKeymap('n')).toEqual({});
+  });
+});
+
+describe('applyBindings', () => {
+  it('falls back to the default keys for actions without a binding', () => {
+    expect(applyBindings({ ...DEFAULT_KEYMAP }, readKeymap({ restart: '?' }))).toEqual(DEFAULT_KEYMAP);
+  });
+
+  it('unbinds an action whose default key was given to another', () => {
+    const keymap = applyBindings({ ...DEFAULT_KEYMAP }, { next: 'p' });
+    expect(keymap.next).toBe('p');
+    expect(keymap.previous).toBe('');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Everything that can be triggered from the keyboard
+ */
+export type ShortcutAction =
+  | 'playPause'
+  | 'restart'
+  | 'next'
+  | 'previous'
+  | 'toggleAutoPlay'
+  | 'speedUp'
+  | 'speedDown'
+  | 'markIn'
+  | 'markOut';
+
+/**
+ * Key bound to each action, as produced by getKeyName. An empty string means unbound
+ */
+export type Keymap = Record<ShortcutAction, string>;
+
+const KEYMAP_KEY = 'keymap';
+
+// Keys that always open and close the shortcut help, and so can't be bound
+export const HELP_KEY = '?';
+export const RESERVED_KEYS = [HELP_KEY, 'Escape', 'Tab'];
+
+// Actions in the order they are listed in the help
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'playPause', label: 'Play / pause' },
+  { action: 'restart', label: 'Restart loop' },
+  { action: 'next', label: 'Next entry' },
+  { action: 'previous', label: 'Previous entry' },
+  { action: 'toggleAutoPlay', label: 'Toggle auto play' },
+  { action: 'speedUp', label: 'Speed up' },
+  { action: 'speedDown', label: 'Slow down' },
+  { action: 'markIn', label: 'Mark in point' },
+  { action: 'markOut', label: 'Mark out point' }
+];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  playPause: 'Space',
+  restart: 'r',
+  next: 'n',
+  previous: 'p',
+  toggleAutoPlay: 'a',
+  speedUp: ']',
+  speedDown: '[',
+  markIn: 'i',
+  markOut: 'o'
+};
+
+/**
+ * Names a key press the way keymaps store it, e.g. "r", "Space", "Shift+N" or "Ctrl+ArrowLeft"
+ */
+export const getKeyName = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey' | 'shiftKey'>): string => {
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+
+  const modifiers: string[] = [];
+  if (e.ctrlKey) modifiers.push('Ctrl');
+  if (e.altKey) modifiers.push('Alt');
+  if (e.metaKey) modifiers.push('Meta');
+  // Shift is already part of symbols like "?", so only name it for letters and named keys
+  if (e.shiftKey && (/^[a-z]$/.test(key) || key.length > 1)) modifiers.push('Shift');
+
+  const displayKey = /^[a-z]$/.test(key) && modifiers.length > 0 ? key.toUpperCase() : key;
+  return [...modifiers, displayKey].join('+');
+};
+
+/**
+ * Whether the key press is going into a text field, where shortcuts must not fire
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * The action bound to a key press, or null if it isn't a shortcut here
+ */
+export const getShortcutAction = (e: KeyboardEvent, keymap: Keymap): ShortcutAction | null => {
+  if (e.defaultPrevented || isTypingTarget(e.target)) return null;
+
+  const keyName = getKeyName(e);
+  // Leave Space and Enter to activate the focused button
+  if ((keyName === 'Space' || keyName === 'Enter') && e.target instanceof HTMLButtonElement) return null;
+
+  const match = SHORTCUT_ACTIONS.find(({ action }) => keymap[action] === keyName);
+  return match ? match.action : null;
+};
+
+/**
+ * Binds a key to an action. Any other action using the same key is unbound
+ */
+export const bindKey = (keymap: Keymap, action: ShortcutAction, keyName: string): Keymap => {
+  const updated = { ...keymap };
+  (Object.keys(updated) as ShortcutAction[]).forEach(other => {
+    if (updated[other] === keyName) updated[other] = '';
+  });
+  updated[action] = keyName;
+  return updated;
+};
+
+/**
+ * The key bindings in a saved or imported object. Actions it doesn't bind, binds to nothing
+ * or binds to a reserved key are left out, the same keys the shortcuts dialog refuses
+ */
+export const readKeymap = (raw: unknown): Partial<Keymap> => {
+  const keymap: Partial<Keymap> = {};
+  if (!raw || typeof raw !== 'object') return keymap;
+
+  const saved = raw as Record<string, unknown>;
+  (Object.keys(DEFAULT_KEYMAP) as ShortcutAction[]).forEach(action => {
+    const keyName = saved[action];
+    if (typeof keyName === 'string' && keyName && !RESERVED_KEYS.includes(keyName)) {
+      keymap[action] = keyName;
+    }
+  });
+  return keymap;
+};
+
+/**
+ * Binds each of the given keys in turn, so no key ends up on two actions
+ */
+export const applyBindings = (keymap: Keymap, bindings: Partial<Keymap>): Keymap =>
+  (Object.entries(bindings) as [ShortcutAction, string][])
+    .reduce((updated, [action, keyName]) => bindKey(updated, action, keyName), keymap);
+
+/**
+ * Loads the saved keymap, using the default key for any action it doesn't bind
+ */
+export const loadKeymap = (): Keymap => {
+  try {
+    return applyBindings({ ...DEFAULT_KEYMAP }, readKeymap(JSON.parse(localStorage.getItem(KEYMAP_KEY) || '{}')));
+  } catch (error) {
+    console.error('Failed to load keymap:', error);
+    return { ...DEFAULT_KEYMAP };
+  }
+};
+
+export const saveKeymap = (keymap: Keymap): void => {
+  localStorage.setItem(KEYMAP_KEY, JSON.stringify(keymap));
+};
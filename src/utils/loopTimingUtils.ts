@@ -0,0 +1,85 @@
+/**
+ * A playback position reported by the player, and when we first saw it (performance.now())
+ */
+export interface PlaybackSample {
+  time: number;
+  observedAt: number;
+}
+
+/**
+ * How far past the loop end playback got before each wrap, in milliseconds
+ */
+export interface OvershootStats {
+  last: number;
+  average: number;
+  max: number;
+  count: number;
+}
+
+export const EMPTY_OVERSHOOT_STATS: OvershootStats = { last: 0, average: 0, max: 0, count: 0 };
+
+// Poll this often while the loop end is far away; also drives the time display
+export const COARSE_POLL_MS = 500;
+// Switch to fine polling this long before the loop end
+export const NEAR_BOUNDARY_MS = 400;
+// Poll this often close to the loop end
+export const FINE_POLL_MS = 10;
+// Poll this often after a wrap, until the player reports the new position
+export const RESTART_POLL_MS = 50;
+// Don't extrapolate further than this from one sample; the player has probably stalled
+const MAX_EXTRAPOLATION_MS = 1500;
+
+/**
+ * Keeps the existing sample while the player keeps reporting the same time, so we know
+ * when that time was actually current
+ */
+export const updateSample = (
+  sample: PlaybackSample | null,
+  reportedTime: number,
+  now: number
+): PlaybackSample => {
+  if (sample && sample.time === reportedTime) return sample;
+  return { time: reportedTime, observedAt: now };
+};
+
+/**
+ * Estimates the current position from the last sample and the playback rate. The player only
+ * reports its time every few hundred milliseconds, so its raw value is usually behind.
+ */
+export const estimatePosition = (sample: PlaybackSample, now: number, playbackRate: number): number => {
+  const elapsedMs = Math.min(Math.max(0, now - sample.observedAt), MAX_EXTRAPOLATION_MS);
+  return sample.time + (elapsedMs / 1000) * playbackRate;
+};
+
+/**
+ * Real time in milliseconds until playback reaches the target, at the given rate
+ */
+export const getMsUntil = (position: number, target: number, playbackRate: number): number => {
+  return ((target - position) / playbackRate) * 1000;
+};
+
+/**
+ * How long to wait before checking the position again: coarse while the boundary is far
+ * away, waking up just before it gets near, then fine until it is reached
+ */
+export const getNextPollDelay = (msUntilBoundary: number | null): number => {
+  if (msUntilBoundary === null) return COARSE_POLL_MS;
+
+  if (msUntilBoundary > NEAR_BOUNDARY_MS) {
+    return Math.min(COARSE_POLL_MS, msUntilBoundary - NEAR_BOUNDARY_MS);
+  }
+  return Math.max(0, Math.min(FINE_POLL_MS, msUntilBoundary));
+};
+
+/**
+ * Adds one wrap to the overshoot statistics
+ */
+export const recordOvershoot = (stats: OvershootStats, overshootMs: number): OvershootStats => {
+  const count = stats.count + 1;
+  return {
+    last: overshootMs,
+    average: stats.average + (overshootMs - stats.average) / count,
+    max: Math.max(stats.max, overshootMs),
+    count
+  };
+};
@@ -0,0 +1,75 @@
+import { getThumbnailUrl } from './youtubeUtils';
+
+/**
+ * Whether the browser can show lock screen and hardware key controls
+ */
+export const isMediaSessionSupported = (): boolean =>
+  typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+/**
+ * Shows what is playing on the lock screen and in the system media controls
+ */
+export const setMediaMetadata = (title: string, videoId: string, album: string): void => {
+  if (!isMediaSessionSupported() || typeof MediaMetadata === 'undefined') return;
+
+  navigator.mediaSession.metadata = new MediaMetadata({
+    title,
+    album,
+    artwork: [{ src: getThumbnailUrl(videoId), sizes: '480x360', type: 'image/jpeg' }]
+  });
+};
+
+export const clearMediaMetadata = (): void => {
+  if (!isMediaSessionSupported()) return;
+  navigator.mediaSession.metadata = null;
+};
+
+/**
+ * Registers handlers for system media actions. Returns a function that removes them again.
+ * Actions the browser doesn't know are skipped.
+ */
+export const setMediaActionHandlers = (
+  handlers: Partial<Record<MediaSessionAction, MediaSessionActionHandler>>
+): (() => void) => {
+  if (!isMediaSessionSupported()) return () => {};
+
+  const registered: MediaSessionAction[] = [];
+  (Object.keys(handlers) as MediaSessionAction[]).forEach(action => {
+    try {
+      navigator.mediaSession.setActionHandler(action, handlers[action] || null);
+      registered.push(action);
+    } catch {
+      console.log(`Media session action "${action}" is not supported`);
+    }
+  });
+
+  return () => {
+    registered.forEach(action => navigator.mediaSession.setActionHandler(action, null));
+  };
+};
+
+/**
+ * Updates the playing/paused state and the position shown by the system media controls
+ */
+export const setMediaPlaybackState = (
+  isPlaying: boolean,
+  duration: number,
+  position: number,
+  playbackRate: number
+): void => {
+  if (!isMediaSessionSupported()) return;
+
+  navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+
+  // Position state needs a known duration, and throws if the position is past it
+  if (duration <= 0 || !navigator.mediaSession.setPositionState) return;
+  try {
+    navigator.mediaSession.setPositionState({
+      duration,
+      position: Math.min(Math.max(0, position), duration),
+      playbackRate
+    });
+  } catch (err) {
+    console.error('Failed to set media position state:', err);
+  }
+};
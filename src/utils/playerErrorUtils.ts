@@ -0,0 +1,30 @@
+/**
+ * Whether a player error may go away on its own (worth retrying) or never will
+ */
+export type PlayerErrorKind = 'transient' | 'permanent';
+
+export interface PlayerErrorInfo {
+  code: number;
+  kind: PlayerErrorKind;
+  message: string;
+}
+
+// Error codes from the YouTube IFrame API
+const PLAYER_ERRORS: Record<number, Omit<PlayerErrorInfo, 'code'>> = {
+  2: { kind: 'permanent', message: 'The video ID or start time is invalid' },
+  5: { kind: 'transient', message: "The video couldn't be played in this browser" },
+  100: { kind: 'permanent', message: 'The video was removed or made private' },
+  101: { kind: 'permanent', message: "The owner doesn't allow this video to be played outside YouTube" },
+  150: { kind: 'permanent', message: "The owner doesn't allow this video to be played outside YouTube" }
+};
+
+// Transient errors are retried this many times before the entry is given up on
+export const MAX_ERROR_RETRIES = 4;
+
+/**
+ * Classifies a YouTube player error code. Unknown codes are treated as transient
+ */
+export const getPlayerErrorInfo = (code: number): PlayerErrorInfo => ({
+  code,
+  ...(PLAYER_ERRORS[code] || { kind: 'transient', message: `Video playback error: ${code}` })
+});
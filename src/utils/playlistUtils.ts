@@ -0,0 +1,130 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SavedPlaylist, Video } from '../types';
+import { createSegment, migrateVideos } from './segmentUtils';
+import { DEFAULT_AUTO_PLAY_MODE, isAutoPlayMode } from './autoPlayUtils';
+
+// LocalStorage keys
+const PLAYLISTS_KEY = 'playlists';
+const ACTIVE_PLAYLIST_KEY = 'activePlaylistId';
+
+// Keys used before named playlists existed
+const LEGACY_VIDEOS_KEY = 'videos';
+const LEGACY_AUTO_PLAY_KEY = 'autoPlayEnabled';
+
+export const DEFAULT_PLAYLIST_NAME = 'My Playlist';
+
+/**
+ * Creates an empty playlist with a fresh ID
+ */
+export const createPlaylist = (name: string, videos: Video[] = []): SavedPlaylist => ({
+  id: uuidv4(),
+  name,
+  videos,
+  currentVideoId: videos.length > 0 ? videos[0].id : null,
+  autoPlayEnabled: false,
+  autoPlayMode: DEFAULT_AUTO_PLAY_MODE
+});
+
+/**
+ * Copies a playlist, giving the copy and every entry in it new IDs
+ */
+export const duplicatePlaylist = (playlist: SavedPlaylist, name: string = `${playlist.name} (copy)`): SavedPlaylist => {
+  const videos = playlist.videos.map(video => ({
+    ...video,
+    id: uuidv4(),
+    segments: video.segments.map(segment => createSegment(segment.startTime, segment.endTime, segment.name))
+  }));
+
+  // Keep the copy pointing at the same entry as the original
+  const currentIndex = playlist.videos.findIndex(video => video.id === playlist.currentVideoId);
+
+  return {
+    ...playlist,
+    id: uuidv4(),
+    name,
+    videos,
+    currentVideoId: currentIndex >= 0 ? videos[currentIndex].id : null
+  };
+};
+
+/**
+ * Returns a copy of the list with the item at fromIndex moved to toIndex
+ */
+export const moveItem = <T>(items: T[], fromIndex: number, toIndex: number): T[] => {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= items.length) return items;
+
+  const result = [...items];
+  const [item] = result.splice(fromIndex, 1);
+  result.splice(Math.max(0, Math.min(toIndex, result.length)), 0, item);
+  return result;
+};
+
+/**
+ * Reads a JSON value from localStorage, removing it if it can't be parsed
+ */
+const readJson = (key: string): unknown => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse saved ${key}:`, e);
+    localStorage.removeItem(key);
+    return null;
+  }
+};
+
+/**
+ * Builds the default playlist from data saved before named playlists existed
+ */
+const migrateLegacyPlaylist = (): SavedPlaylist => {
+  const playlist = createPlaylist(DEFAULT_PLAYLIST_NAME, migrateVideos(readJson(LEGACY_VIDEOS_KEY)));
+  playlist.autoPlayEnabled = readJson(LEGACY_AUTO_PLAY_KEY) === true;
+  return playlist;
+};
+
+/**
+ * Loads saved playlists and the active playlist ID.
+ * Always returns at least one playlist.
+ */
+export const loadPlaylists = (): { playlists: SavedPlaylist[]; activePlaylistId: string } => {
+  const saved = readJson(PLAYLISTS_KEY);
+
+  let playlists: SavedPlaylist[] = [];
+  if (Array.isArray(saved)) {
+    playlists = saved
+      .filter(playlist => playlist && typeof playlist.id === 'string')
+      .map(playlist => ({
+        id: playlist.id,
+        name: typeof playlist.name === 'string' ? playlist.name : DEFAULT_PLAYLIST_NAME,
+        videos: migrateVideos(playlist.videos),
+        currentVideoId: playlist.currentVideoId ?? null,
+        autoPlayEnabled: playlist.autoPlayEnabled === true,
+        autoPlayMode: isAutoPlayMode(playlist.autoPlayMode) ? playlist.autoPlayMode : DEFAULT_AUTO_PLAY_MODE
+      }));
+  }
+
+  if (playlists.length === 0) {
+    playlists = [migrateLegacyPlaylist()];
+  }
+
+  const savedActiveId = localStorage.getItem(ACTIVE_PLAYLIST_KEY);
+  const activePlaylistId = playlists.some(playlist => playlist.id === savedActiveId)
+    ? savedActiveId as string
+    : playlists[0].id;
+
+  return { playlists, activePlaylistId };
+};
+
+/**
+ * Persists all playlists and the active playlist ID
+ */
+export const savePlaylists = (playlists: SavedPlaylist[], activePlaylistId: string): void => {
+  localStorage.setItem(PLAYLISTS_KEY, JSON.stringify(playlists));
+  localStorage.setItem(ACTIVE_PLAYLIST_KEY, activePlaylistId);
+
+  // The legacy keys have been migrated once playlists are saved
+  localStorage.removeItem(LEGACY_VIDEOS_KEY);
+  localStorage.removeItem(LEGACY_AUTO_PLAY_KEY);
+};
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Segment, Video } from '../types';
+import { RepetitionSettings } from './settingsUtils';
+import { getCountInDuration } from './countInUtils';
+
+/**
+ * Shape of entries saved before videos owned a list of segments
+ */
+interface LegacyVideo extends Omit<Video, 'segments'> {
+  startTime?: number | null;
+  endTime?: number | null;
+  segments?: Segment[];
+}
+
+/**
+ * Default display name for the segment at the given position
+ */
+export const getDefaultSegmentName = (index: number): string => `Loop ${index + 1}`;
+
+/**
+ * Creates a new segment with a fresh ID
+ */
+export const createSegment = (
+  startTime: number | null,
+  endTime: number | null,
+  name: string = getDefaultSegmentName(0)
+): Segment => ({
+  id: uuidv4(),
+  name,
+  startTime,
+  endTime
+});
+
+/**
+ * Converts a saved video into the current shape.
+ * Entries from before segments existed become a single-segment entry.
+ */
+export const migrateVideo = (savedVideo: LegacyVideo): Video => {
+  const { startTime = null, endTime = null, segments, ...rest } = savedVideo;
+
+  if (Array.isArray(segments) && segments.length > 0) {
+    return { ...rest, segments };
+  }
+
+  return {
+    ...rest,
+    segments: [createSegment(startTime, endTime)]
+  };
+};
+
+/**
+ * Migrates a parsed list of saved videos, dropping anything that isn't an entry
+ */
+export const migrateVideos = (savedVideos: unknown): Video[] => {
+  if (!Array.isArray(savedVideos)) return [];
+
+  return savedVideos
+    .filter((video): video is LegacyVideo => !!video && typeof video.videoId === 'string')
+    .map(migrateVideo);
+};
+
+/**
+ * Finds a segment by ID, falling back to the first segment of the video
+ */
+export const getActiveSegment = (video: Video, segmentId?: string | null): Segment | null => {
+  if (video.segments.length === 0) return null;
+  return video.segments.find(segment => segment.id === segmentId) || video.segments[0];
+};
+
+/**
+ * Playing time in seconds of one segment. A segment without an end time plays to the end
+ * of the video, so its length is only known once the video's duration is
+ */
+export const getSegmentDuration = (segment: Segment, videoDuration?: number): number | null => {
+  const endTime = segment.endTime ?? videoDuration ?? null;
+  if (endTime === null) return null;
+  return Math.max(0, endTime - (segment.startTime || 0));
+};
+
+/**
+ * Total playing time in seconds of the given segments,
+ * or null if any of them plays to the end of a video of unknown length
+ */
+export const getSegmentsDuration = (segments: Segment[], videoDuration?: number): number | null => {
+  let total = 0;
+
+  for (const segment of segments) {
+    const duration = getSegmentDuration(segment, videoDuration);
+    if (duration === null) return null;
+    total += duration;
+  }
+
+  return total;
+};
+
+/**
+ * Real time in seconds auto play spends on the given segments: each plays repeatCount times
+ * at the playback rate, with the pause, count-in and lead-in before every repetition.
+ * Null if any segment plays to the end of a video of unknown length
+ */
+export const getSegmentsPlayTime = (
+  segments: Segment[],
+  videoDuration: number | undefined,
+  repeatCount: number,
+  playbackRate: number,
+  settings: RepetitionSettings
+): number | null => {
+  const duration = getSegmentsDuration(segments, videoDuration);
+  if (duration === null) return null;
+
+  const { gapSeconds, countInBeats, countInBpm, leadInSeconds } = settings;
+  const repetitions = segments.length * (repeatCount - 1);
+  const restSeconds = gapSeconds + getCountInDuration(countInBeats, countInBpm) / 1000;
+  return (duration * repeatCount + leadInSeconds * repetitions) / playbackRate + restSeconds * repetitions;
+};
\ No newline at end of file
@@ -0,0 +1,102 @@
+/**
+ * App-wide preferences that apply to every playlist
+ */
+export interface AppSettings {
+  // How many times auto play plays each loop before moving on, unless the entry sets its own
+  defaultRepeatCount: number;
+  // Silent pause between repetitions of a loop, in seconds
+  gapSeconds: number;
+  // Clicks played before each repetition starts, and their tempo
+  countInBeats: number;
+  countInBpm: number;
+  // How far before the loop start each repetition begins, in seconds
+  leadInSeconds: number;
+  // Volume fades before the loop end and after it starts again, in seconds
+  fadeOutSeconds: number;
+  fadeInSeconds: number;
+}
+
+/**
+ * The settings that shape what happens between repetitions of a loop
+ */
+export type RepetitionSettings = Pick<
+  AppSettings,
+  'gapSeconds' | 'countInBeats' | 'countInBpm' | 'leadInSeconds' | 'fadeOutSeconds' | 'fadeInSeconds'
+>;
+
+const SETTINGS_KEY = 'settings';
+
+export const MAX_REPEAT_COUNT = 99;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  defaultRepeatCount: 1,
+  gapSeconds: 0,
+  countInBeats: 0,
+  countInBpm: 100,
+  leadInSeconds: 0,
+  fadeOutSeconds: 0,
+  fadeInSeconds: 0
+};
+
+/**
+ * Allowed range of each numeric setting, and whether it must be a whole number
+ */
+export const SETTING_LIMITS: Record<keyof AppSettings, { min: number; max: number; integer: boolean }> = {
+  defaultRepeatCount: { min: 1, max: MAX_REPEAT_COUNT, integer: true },
+  gapSeconds: { min: 0, max: 30, integer: false },
+  countInBeats: { min: 0, max: 8, integer: true },
+  countInBpm: { min: 40, max: 240, integer: true },
+  leadInSeconds: { min: 0, max: 10, integer: false },
+  fadeOutSeconds: { min: 0, max: 5, integer: false },
+  fadeInSeconds: { min: 0, max: 5, integer: false }
+};
+
+/**
+ * Whether the value is allowed for the given setting
+ */
+export const isValidSetting = (key: keyof AppSettings, value: unknown): value is number => {
+  const { min, max, integer } = SETTING_LIMITS[key];
+  return typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value >= min &&
+    value <= max &&
+    (!integer || Number.isInteger(value));
+};
+
+/**
+ * Whether the value is a usable repeat count
+ */
+export const isRepeatCount = (value: unknown): value is number => isValidSetting('defaultRepeatCount', value);
+
+/**
+ * The valid settings in a saved or imported object, leaving out anything missing or invalid
+ */
+export const readSettings = (raw: unknown): Partial<AppSettings> => {
+  const settings: Partial<AppSettings> = {};
+  if (!raw || typeof raw !== 'object') return settings;
+
+  const saved = raw as Record<string, unknown>;
+  (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach(key => {
+    const value = saved[key];
+    if (isValidSetting(key, value)) {
+      settings[key] = value;
+    }
+  });
+  return settings;
+};
+
+/**
+ * Loads the saved settings, using defaults for anything missing or invalid
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...readSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}')) };
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
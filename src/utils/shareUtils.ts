@@ -0,0 +1,180 @@
+import { SavedPlaylist } from '../types';
+import { EXPORT_FORMAT, EXPORT_VERSION, ImportPreview, parseExportDocument } from './exportUtils';
+import { getVideoTitle } from './youtubeUtils';
+
+/**
+ * A link that opens a single loop
+ */
+export interface LoopLink {
+  type: 'loop';
+  videoId: string;
+  startTime: number | null;
+  endTime: number | null;
+}
+
+/**
+ * A link that carries a whole playlist
+ */
+export interface PlaylistLink {
+  type: 'playlist';
+  data: string;
+}
+
+// Compact playlist shape used in links, to keep URLs short:
+// [name, [[videoId, title, [[start, end, name], ...]], ...]]
+type CompactSegment = [number | null, number | null, string];
+type CompactVideo = [string, string, CompactSegment[]];
+type CompactPlaylist = [string, CompactVideo[]];
+
+// First character of the encoded data says how the rest is encoded
+const COMPRESSED_PREFIX = 'z';
+const PLAIN_PREFIX = 'j';
+
+const parseTimeParam = (value: string | null): number | null => {
+  if (value === null || value === '') return null;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+};
+
+/**
+ * Reads a share link from a URL fragment like `#v=<id>&s=90&e=120` or `#p=<data>`
+ */
+export const parseShareHash = (hash: string): LoopLink | PlaylistLink | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+
+  const data = params.get('p');
+  if (data) {
+    return { type: 'playlist', data };
+  }
+
+  const videoId = params.get('v');
+  if (videoId && /^[\w-]{11}$/.test(videoId)) {
+    return {
+      type: 'loop',
+      videoId,
+      startTime: parseTimeParam(params.get('s')),
+      endTime: parseTimeParam(params.get('e'))
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Removes the share fragment from the address bar without adding a history entry
+ */
+export const clearShareHash = (): void => {
+  history.replaceState(null, '', window.location.pathname + window.location.search);
+};
+
+const getBaseUrl = () => window.location.origin + window.location.pathname;
+
+/**
+ * Builds a link that opens straight into the given loop
+ */
+export const buildLoopLink = (videoId: string, startTime: number | null, endTime: number | null): string => {
+  const params = new URLSearchParams({ v: videoId });
+  if (startTime !== null) params.set('s', String(startTime));
+  if (endTime !== null) params.set('e', String(endTime));
+  return `${getBaseUrl()}#${params.toString()}`;
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Convert in chunks to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Pipe bytes through a compression or decompression stream
+const transformBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+/**
+ * Builds a link carrying the whole playlist in the fragment,
+ * compressed when the browser supports it
+ */
+export const buildPlaylistLink = async (playlist: SavedPlaylist): Promise<string> => {
+  const compact: CompactPlaylist = [
+    playlist.name,
+    playlist.videos.map(video => [
+      video.videoId,
+      getVideoTitle(video),
+      video.segments.map(segment => [segment.startTime, segment.endTime, segment.name])
+    ])
+  ];
+  const bytes = new TextEncoder().encode(JSON.stringify(compact));
+
+  const data = typeof CompressionStream === 'function'
+    ? COMPRESSED_PREFIX + toBase64Url(await transformBytes(bytes, new CompressionStream('deflate-raw')))
+    : PLAIN_PREFIX + toBase64Url(bytes);
+
+  return `${getBaseUrl()}#p=${data}`;
+};
+
+/**
+ * Decodes the data of a playlist link into an import preview
+ */
+export const decodePlaylistLink = async (data: string): Promise<ImportPreview> => {
+  let compact: CompactPlaylist;
+  try {
+    let bytes = fromBase64Url(data.slice(1));
+    if (data.startsWith(COMPRESSED_PREFIX)) {
+      if (typeof DecompressionStream !== 'function') {
+        throw new Error('This browser cannot open compressed playlist links');
+      }
+      bytes = await transformBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (!data.startsWith(PLAIN_PREFIX)) {
+      throw new Error('Unknown link encoding');
+    }
+    compact = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (err) {
+    console.error('Failed to decode playlist link:', err);
+    throw new Error('This playlist link is damaged or incomplete');
+  }
+
+  if (!Array.isArray(compact) || !Array.isArray(compact[1])) {
+    throw new Error('This playlist link is damaged or incomplete');
+  }
+
+  // Expand into an export document so links get the same validation as files
+  const [name, videos] = compact;
+  return parseExportDocument({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    playlists: [{
+      name,
+      autoPlayEnabled: false,
+      videos: videos.map(video => ({
+        videoId: video?.[0],
+        url: '',
+        title: video?.[1],
+        segments: Array.isArray(video?.[2])
+          ? video[2].map(segment => ({ startTime: segment?.[0], endTime: segment?.[1], name: segment?.[2] }))
+          : []
+      }))
+    }]
+  });
+};
+
+/**
+ * Copies text to the clipboard, falling back to a prompt the user can copy from
+ */
+export const copyToClipboard = async (text: string): Promise<void> => {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch (err) {
+    console.warn('Clipboard unavailable, showing link instead:', err);
+    window.prompt('Copy this link:', text);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { formatTime } from './timeUtils';
+
+/**
+ * What ends a sleep timer: a number of minutes, the end of the current loop, a number of
+ * passes through the playlist, or a time of day
+ */
+export type SleepTimerMode = 'minutes' | 'loop' | 'passes' | 'clockTime';
+
+/**
+ * When the player should stop for the sleep timer: right away, when the current loop ends,
+ * or when the current entry is done instead of moving on
+ */
+export type SleepPoint = 'now' | 'loopEnd' | 'entryEnd';
+
+export interface SleepTimer {
+  mode: SleepTimerMode;
+  // When playback stops, for the minutes and clock time modes
+  endsAt: number | null;
+  // Passes to play and passes finished so far, for the passes mode
+  passes: number;
+  completedPasses: number;
+  fadeOut: boolean;
+  // Set when the stop point was reached outside the player, e.g. by the background timer,
+  // so the player stops right away
+  stopNow?: boolean;
+}
+
+// Modes in the order they are offered
+export const SLEEP_TIMER_MODES: { mode: SleepTimerMode; label: string }[] = [
+  { mode: 'minutes', label: 'After a number of minutes' },
+  { mode: 'loop', label: 'After the current loop' },
+  { mode: 'passes', label: 'After a number of passes through the playlist' },
+  { mode: 'clockTime', label: 'At a time of day' }
+];
+
+// Length of the fade-out before stopping, when enabled
+export const SLEEP_FADE_SECONDS = 10;
+
+/**
+ * The next time the clock shows the given "HH:MM" time, or null if it isn't a valid time
+ */
+export const getClockTimeEnd = (time: string, now: number = Date.now()): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  const end = new Date(now);
+  end.setHours(hours, minutes, 0, 0);
+  if (end.getTime() <= now) {
+    end.setDate(end.getDate() + 1);
+  }
+  return end.getTime();
+};
+
+/**
+ * When the player should stop, given whether the current entry is the last of a pass
+ * through the playlist. Timed stops start early enough for the fade-out to finish on time
+ */
+export const getSleepPoint = (timer: SleepTimer | null, now: number, isLastOfPass: boolean): SleepPoint | null => {
+  if (!timer) return null;
+  if (timer.stopNow) return 'now';
+
+  switch (timer.mode) {
+    case 'loop':
+      return 'loopEnd';
+    case 'passes':
+      return isLastOfPass && timer.completedPasses >= timer.passes - 1 ? 'entryEnd' : null;
+    default: {
+      const fadeMs = timer.fadeOut ? SLEEP_FADE_SECONDS * 1000 : 0;
+      return timer.endsAt !== null && now >= timer.endsAt - fadeMs ? 'now' : null;
+    }
+  }
+};
+
+/**
+ * Short status for the header, e.g. "Sleep in 12:34" or "Sleep after pass 2 of 3"
+ */
+export const describeSleepTimer = (timer: SleepTimer, now: number): string => {
+  switch (timer.mode) {
+    case 'loop':
+      return 'Sleep after this loop';
+    case 'passes':
+      return `Sleep after pass ${Math.min(timer.completedPasses + 1, timer.passes)} of ${timer.passes}`;
+    default: {
+      const secondsLeft = Math.max(0, Math.ceil(((timer.endsAt ?? now) - now) / 1000));
+      return `Sleep in ${formatTime(secondsLeft)}`;
+    }
+  }
+};
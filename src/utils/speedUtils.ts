@@ -0,0 +1,78 @@
+import { SpeedTrainer } from '../types';
+
+// Range of speeds the YouTube player supports
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 2;
+
+// Speeds offered in the speed menu
+export const PLAYBACK_RATE_OPTIONS = [0.25, 0.5, 0.75, 0.8, 0.85, 0.9, 0.95, 1, 1.25, 1.5, 1.75, 2];
+
+/**
+ * Whether the value is a speed the player can play at
+ */
+export const isPlaybackRate = (value: unknown): value is number =>
+  typeof value === 'number' && value >= MIN_PLAYBACK_RATE && value <= MAX_PLAYBACK_RATE;
+
+/**
+ * Keeps a speed within the supported range, rounded to hundredths
+ */
+export const clampPlaybackRate = (rate: number): number =>
+  Math.round(Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate)) * 100) / 100;
+
+/**
+ * Formats a speed for display, e.g. 0.75×
+ */
+export const formatPlaybackRate = (rate: number): string => `${Number(rate.toFixed(2))}×`;
+
+/**
+ * Default trainer settings when it is first switched on: from 70% up to the entry's speed
+ */
+export const createSpeedTrainer = (targetRate: number = 1): SpeedTrainer => ({
+  startRate: clampPlaybackRate(targetRate * 0.7),
+  step: 0.05,
+  loopsPerStep: 3,
+  targetRate
+});
+
+/**
+ * Whether trainer settings read from storage or an import are usable
+ */
+export const isSpeedTrainer = (value: unknown): value is SpeedTrainer => {
+  if (!value || typeof value !== 'object') return false;
+
+  const { startRate, step, loopsPerStep, targetRate } = value as Partial<SpeedTrainer>;
+  return isPlaybackRate(startRate) &&
+    isPlaybackRate(targetRate) &&
+    typeof step === 'number' && step > 0 &&
+    typeof loopsPerStep === 'number' && Number.isInteger(loopsPerStep) && loopsPerStep >= 1;
+};
+
+/**
+ * The trainer's speed after the given number of completed loops.
+ * Works in either direction, so a target below the start slows down instead.
+ */
+export const getTrainerRate = (trainer: SpeedTrainer, completedLoops: number): number => {
+  const steps = Math.floor(completedLoops / trainer.loopsPerStep);
+  const direction = trainer.targetRate >= trainer.startRate ? 1 : -1;
+  const rate = trainer.startRate + direction * steps * trainer.step;
+
+  return clampPlaybackRate(direction > 0 ? Math.min(rate, trainer.targetRate) : Math.max(rate, trainer.targetRate));
+};
+
+/**
+ * How many more loops until the trainer changes speed, or null once the target is reached
+ */
+export const getLoopsUntilNextStep = (trainer: SpeedTrainer, completedLoops: number): number | null => {
+  if (getTrainerRate(trainer, completedLoops) === clampPlaybackRate(trainer.targetRate)) return null;
+  return trainer.loopsPerStep - (completedLoops % trainer.loopsPerStep);
+};
+
+/**
+ * The next speed up or down the speed menu from the given one, staying put at either end
+ */
+export const getNextPlaybackRate = (rate: number, direction: 1 | -1): number => {
+  const next = direction > 0
+    ? PLAYBACK_RATE_OPTIONS.find(option => option > rate)
+    : [...PLAYBACK_RATE_OPTIONS].reverse().find(option => option < rate);
+  return next ?? rate;
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { formatTime, parseTimeInput } from './timeUtils';
+
+const expectSeconds = (input: string, seconds: number | null, relativeTo?: number | null) => {
+  expect(parseTimeInput(input, { relativeTo })).toEqual({ ok: true, seconds });
+};
+
+const expectError = (input: string, error: string | RegExp, relativeTo?: number | null) => {
+  const result = parseTimeInput(input, { relativeTo });
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.error).toMatch(error);
+  }
+};
+
+describe('parseTimeInput', () => {
+  it('treats an empty input as no time', () => {
+    expectSeconds('', null);
+    expectSeconds('   ', null);
+  });
+
+  it('parses colon times', () => {
+    expectSeconds('1:23', 83);
+    expectSeconds('01:02:03', 3723);
+    expectSeconds('0:05', 5);
+  });
+
+  it('carries over out of range parts', () => {
+    expectSeconds('1:75', 135);
+  });
+
+  it('parses plain seconds', () => {
+    expectSeconds('90', 90);
+    expectSeconds(' 42 ', 42);
+  });
+
+  it('keeps fractional seconds', () => {
+    expectSeconds('1:23.45', 83.45);
+    expectSeconds('90.5', 90.5);
+    expectSeconds('1.5s', 1.5);
+  });
+
+  it('parses units, with or without spaces', () => {
+    expectSeconds('1h2m3s', 3723);
+    expectSeconds('2m30s', 150);
+    expectSeconds('2m', 120);
+    expectSeconds('90s', 90);
+    expectSeconds('1h', 3600);
+    expectSeconds('1H 2M 3S', 3723);
+    expectSeconds('1m 30s', 90);
+  });
+
+  it('counts relative times from the start time', () => {
+    expectSeconds('+15', 25, 10);
+    expectSeconds('+1:00', 70, 10);
+    expectSeconds('+ 30s', 30, 0);
+  });
+
+  it('needs a start time for relative times', () => {
+    expectError('+15', 'Relative times like +15 need a start time');
+    expectError('+15', 'Relative times like +15 need a start time', null);
+  });
+
+  it('refuses negative times', () => {
+    expectError('-5', 'Time cannot be negative');
+    expectError('+-5', 'Time cannot be negative', 10);
+  });
+
+  it('explains what a time looks like when it cannot read one', () => {
+    expectError('abc', '"abc" is not a time. Use 1:23.45, 90s or 1h2m3s');
+    expectError('1:2:3:4', /is not a time/);
+    expectError('1m2h', /is not a time/);
+    expectError('1.2.3', /is not a time/);
+  });
+});
+
+describe('formatTime', () => {
+  it('formats minutes and hours', () => {
+    expect(formatTime(0)).toBe('0:00');
+    expect(formatTime(83)).toBe('1:23');
+    expect(formatTime(3723)).toBe('1:02:03');
+  });
+
+  it('keeps hundredths without trailing zeros', () => {
+    expect(formatTime(83.45)).toBe('1:23.45');
+    expect(formatTime(90.5)).toBe('1:30.5');
+    expect(formatTime(59.999)).toBe('1:00');
+  });
+
+  it('returns an empty string for no time', () => {
+    expect(formatTime(null)).toBe('');
+  });
+
+  it('round-trips through parseTimeInput', () => {
+    [0, 5, 83, 83.45, 90.5, 599.99, 3723, 3723.07].forEach(seconds => {
+      expectSeconds(formatTime(seconds), seconds);
+    });
+  });
+});
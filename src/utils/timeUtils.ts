@@ -1,114 +1,109 @@
 /**
- * Format time in seconds to HH:MM:SS format for display purposes
+ * Format time in seconds to HH:MM:SS format for display purposes.
+ * Fractions of a second are kept to two decimal places, e.g. 83.45 becomes 1:23.45
  */
 export const formatTime = (timeInSeconds: number | null): string => {
   if (timeInSeconds === null) return '';
-  
-  const hours = Math.floor(timeInSeconds / 3600);
-  const minutes = Math.floor((timeInSeconds % 3600) / 60);
-  const seconds = Math.floor(timeInSeconds % 60);
-  
+
+  // Round to hundredths first so 59.999 doesn't show as 0:60
+  const rounded = Math.round(timeInSeconds * 100) / 100;
+  const wholeSeconds = Math.floor(rounded);
+  const hundredths = Math.round((rounded - wholeSeconds) * 100);
+
+  const hours = Math.floor(wholeSeconds / 3600);
+  const minutes = Math.floor((wholeSeconds % 3600) / 60);
+  const seconds = wholeSeconds % 60;
+
+  const fraction = hundredths > 0
+    ? `.${hundredths.toString().padStart(2, '0').replace(/0$/, '')}`
+    : '';
+
   if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}${fraction}`;
   } else {
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}${fraction}`;
   }
 };
 
 /**
- * Parse time input in HH:MM:SS or MM:SS format to seconds
+ * Result of parsing a time. An empty input is valid and means "no time" (null)
+ */
+export type TimeParseResult =
+  | { ok: true; seconds: number | null }
+  | { ok: false; error: string };
+
+export interface TimeParseOptions {
+  // Start time that relative times like "+15" are counted from
+  relativeTo?: number | null;
+}
+
+// 1:23, 1:23.45, 1:02:03
+const COLON_PATTERN = /^(\d+:){1,2}\d+(\.\d+)?$/;
+// 90, 90.5
+const SECONDS_PATTERN = /^\d+(\.\d+)?$/;
+// 1h2m3s, 2m, 90s, 1.5s, with optional spaces between the parts
+const UNITS_PATTERN = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+(?:\.\d+)?)\s*m)?\s*(?:(\d+(?:\.\d+)?)\s*s)?$/i;
+
+/**
+ * Parses an absolute time, without any relative prefix
  */
-export const parseTimeInput = (timeString: string): number | null => {
-  // If empty string, return null
-  if (!timeString || !timeString.trim()) {
-    console.log('Empty time string, returning null');
-    return null;
+const parseAbsoluteTime = (value: string): number | null => {
+  if (SECONDS_PATTERN.test(value)) {
+    return Number(value);
   }
 
-  // Normalize input by trimming and ensuring we have proper delimiters
-  const normalizedTimeString = timeString.trim();
-  
-  // Log the time string we're parsing
-  console.log('Parsing time string:', normalizedTimeString);
-
-  // Split by :
-  const parts = normalizedTimeString.split(':');
-  console.log('Split into parts:', parts);
-  
-  // Handle seconds-only format (single number)
-  if (parts.length === 1) {
-    // Make sure we're dealing with a clean number
-    const trimmedPart = parts[0].trim();
-    const seconds = parseInt(trimmedPart, 10);
-    console.log('Parsed as direct seconds:', seconds);
-    
-    if (isNaN(seconds)) {
-      console.warn('Invalid direct seconds (NaN value):', parts[0]);
-      return null;
-    }
-    
-    console.log('Using direct seconds value:', seconds);
-    return seconds;
+  if (COLON_PATTERN.test(value)) {
+    // Out of range parts carry over, so 1:75 is 2:15
+    return value
+      .split(':')
+      .reduce((total, part) => total * 60 + Number(part), 0);
   }
-  
-  // Handle MM:SS format
-  if (parts.length === 2) {
-    const minutes = parseInt(parts[0], 10) || 0; // Default to 0 if NaN
-    const seconds = parseInt(parts[1], 10) || 0; // Default to 0 if NaN
-    
-    console.log('Parsed as MM:SS:', { minutes, seconds });
-    
-    // Validate seconds are in valid range
-    if (seconds >= 60) {
-      console.warn('Seconds out of range, adjusting:', seconds);
-      // Instead of error, we can adjust - add excess seconds to minutes
-      const adjustedMinutes = minutes + Math.floor(seconds / 60);
-      const adjustedSeconds = seconds % 60;
-      const totalSeconds = adjustedMinutes * 60 + adjustedSeconds;
-      console.log('Adjusted to:', { adjustedMinutes, adjustedSeconds, totalSeconds });
-      return totalSeconds;
-    }
-    
-    const totalSeconds = minutes * 60 + seconds;
-    console.log('Parsed MM:SS format to seconds:', totalSeconds);
-    return totalSeconds;
+
+  const unitsMatch = value.match(UNITS_PATTERN);
+  if (unitsMatch && (unitsMatch[1] || unitsMatch[2] || unitsMatch[3])) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = unitsMatch;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
   }
-  
-  // Handle HH:MM:SS format
-  if (parts.length === 3) {
-    const hours = parseInt(parts[0], 10) || 0;    // Default to 0 if NaN
-    const minutes = parseInt(parts[1], 10) || 0;  // Default to 0 if NaN
-    const seconds = parseInt(parts[2], 10) || 0;  // Default to 0 if NaN
-    
-    console.log('Parsed as HH:MM:SS:', { hours, minutes, seconds });
-    
-    // Adjust times if they're out of range
-    let adjustedHours = hours;
-    let adjustedMinutes = minutes;
-    let adjustedSeconds = seconds;
-    
-    // If seconds >= 60, add to minutes
-    if (adjustedSeconds >= 60) {
-      adjustedMinutes += Math.floor(adjustedSeconds / 60);
-      adjustedSeconds = adjustedSeconds % 60;
-    }
-    
-    // If minutes >= 60, add to hours
-    if (adjustedMinutes >= 60) {
-      adjustedHours += Math.floor(adjustedMinutes / 60);
-      adjustedMinutes = adjustedMinutes % 60;
+
+  return null;
+};
+
+/**
+ * Parse a time to seconds. Accepts:
+ * - HH:MM:SS or MM:SS, with optional fractional seconds (1:23.45)
+ * - Plain seconds (90, 90.5)
+ * - Units (1h2m3s, 2m30s, 90s)
+ * - Times relative to a start time (+15, +1:00), when options.relativeTo is given
+ */
+export const parseTimeInput = (timeString: string, options: TimeParseOptions = {}): TimeParseResult => {
+  const trimmed = timeString ? timeString.trim() : '';
+  if (!trimmed) {
+    return { ok: true, seconds: null };
+  }
+
+  const isRelative = trimmed.startsWith('+');
+  const value = isRelative ? trimmed.slice(1).trim() : trimmed;
+
+  if (value.startsWith('-')) {
+    return { ok: false, error: 'Time cannot be negative' };
+  }
+
+  const seconds = parseAbsoluteTime(value);
+  if (seconds === null || !Number.isFinite(seconds)) {
+    return { ok: false, error: `"${trimmed}" is not a time. Use 1:23.45, 90s or 1h2m3s` };
+  }
+
+  if (isRelative) {
+    if (options.relativeTo === undefined || options.relativeTo === null) {
+      return { ok: false, error: 'Relative times like +15 need a start time' };
     }
-    
-    const totalSeconds = adjustedHours * 3600 + adjustedMinutes * 60 + adjustedSeconds;
-    console.log('Parsed HH:MM:SS format to seconds:', totalSeconds);
-    return totalSeconds;
+    return { ok: true, seconds: options.relativeTo + seconds };
   }
-  
-  console.warn('Unable to parse time format:', timeString);
-  return null;
+
+  return { ok: true, seconds };
 };
 
 /**
  * Alias for parseTimeInput for naming consistency
  */
-export const parseTimeString = parseTimeInput; 
\ No newline at end of file
+export const parseTimeString = parseTimeInput;
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { VideoInfo } from './youtubeUtils';
+
+const CACHE_KEY = 'videoInfoCache';
+
+// How long fetched details are trusted before YouTube is asked again
+export const VIDEO_INFO_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Beyond this many videos, the oldest details are dropped
+const MAX_CACHE_ENTRIES = 500;
+
+interface CacheEntry {
+  info: VideoInfo;
+  fetchedAt: number;
+}
+
+const loadCache = (): Record<string, CacheEntry> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+    return saved && typeof saved === 'object' ? saved : {};
+  } catch (error) {
+    console.error('Failed to load video info cache:', error);
+    return {};
+  }
+};
+
+/**
+ * Details fetched for a video within the last VIDEO_INFO_TTL_MS, if any
+ */
+export const getCachedVideoInfo = (videoId: string, now: number = Date.now()): VideoInfo | null => {
+  const entry = loadCache()[videoId];
+  if (!entry || typeof entry.fetchedAt !== 'number' || typeof entry.info?.title !== 'string') return null;
+  return now - entry.fetchedAt < VIDEO_INFO_TTL_MS ? entry.info : null;
+};
+
+/**
+ * Remembers details fetched for a video, dropping expired ones while at it
+ */
+export const cacheVideoInfo = (videoId: string, info: VideoInfo, now: number = Date.now()): void => {
+  const entries = Object.entries({ ...loadCache(), [videoId]: { info, fetchedAt: now } })
+    .filter(([, entry]) => now - entry.fetchedAt < VIDEO_INFO_TTL_MS)
+    .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+    .slice(0, MAX_CACHE_ENTRIES);
+
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    // A full storage quota only costs a refetch later
+    console.error('Failed to save video info cache:', error);
+  }
+};
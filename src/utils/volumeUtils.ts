@@ -0,0 +1,97 @@
+/**
+ * The volume chosen for all entries, saved across sessions
+ */
+export interface VolumeSettings {
+  // 0 to 100, before any per-entry offset
+  masterVolume: number;
+  // Only ever set by the user; the player never mutes on its own
+  muted: boolean;
+}
+
+const VOLUME_KEY = 'volume';
+
+// YouTube's own default volume
+export const DEFAULT_VOLUME = 100;
+
+export const DEFAULT_VOLUME_SETTINGS: VolumeSettings = {
+  masterVolume: DEFAULT_VOLUME,
+  muted: false
+};
+
+// Largest per-entry change to the master volume, in volume points either way
+export const MAX_VOLUME_OFFSET = 50;
+
+// How often fades change the volume, in milliseconds
+export const FADE_STEP_MS = 50;
+
+const clampVolume = (volume: number): number => Math.min(100, Math.max(0, Math.round(volume)));
+
+const isVolume = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 100;
+
+/**
+ * Whether the value is a usable per-entry volume offset
+ */
+export const isVolumeOffset = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && Math.abs(value) <= MAX_VOLUME_OFFSET;
+
+/**
+ * The volume an entry plays at: the master volume plus the entry's own offset
+ */
+export const getEntryVolume = (masterVolume: number, offset = 0): number => clampVolume(masterVolume + offset);
+
+/**
+ * The master volume that makes an entry with the given offset play at the given volume
+ */
+export const getMasterVolume = (entryVolume: number, offset = 0): number => clampVolume(entryVolume - offset);
+
+/**
+ * Formats a per-entry offset for display, e.g. "+10" or "−20"
+ */
+export const formatVolumeOffset = (offset: number): string =>
+  offset === 0 ? '±0' : `${offset > 0 ? '+' : '−'}${Math.abs(offset)}`;
+
+/**
+ * The valid volume settings in a saved or imported object, leaving out anything missing or invalid
+ */
+export const readVolumeSettings = (raw: unknown): Partial<VolumeSettings> => {
+  const settings: Partial<VolumeSettings> = {};
+  if (!raw || typeof raw !== 'object') return settings;
+
+  const { masterVolume, muted } = raw as Record<string, unknown>;
+  if (isVolume(masterVolume)) settings.masterVolume = masterVolume;
+  if (typeof muted === 'boolean') settings.muted = muted;
+  return settings;
+};
+
+/**
+ * Loads the saved volume, using defaults for anything missing or invalid
+ */
+export const loadVolumeSettings = (): VolumeSettings => {
+  try {
+    return { ...DEFAULT_VOLUME_SETTINGS, ...readVolumeSettings(JSON.parse(localStorage.getItem(VOLUME_KEY) || '{}')) };
+  } catch (error) {
+    console.error('Failed to load volume:', error);
+    return { ...DEFAULT_VOLUME_SETTINGS };
+  }
+};
+
+export const saveVolumeSettings = (settings: VolumeSettings): void => {
+  localStorage.setItem(VOLUME_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Volume while fading out, given how long is left until the loop end
+ */
+export const getFadeOutVolume = (baseVolume: number, msUntilEnd: number, fadeOutMs: number): number => {
+  const fraction = Math.min(1, Math.max(0, msUntilEnd / fadeOutMs));
+  return Math.round(baseVolume * fraction);
+};
+
+/**
+ * Volume while fading in, given how long ago the loop started again
+ */
+export const getFadeInVolume = (baseVolume: number, elapsedMs: number, fadeInMs: number): number => {
+  const fraction = Math.min(1, Math.max(0, elapsedMs / fadeInMs));
+  return Math.round(baseVolume * fraction);
+};
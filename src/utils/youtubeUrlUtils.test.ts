@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { parseUrlTime, parseYouTubeUrl } from './youtubeUrlUtils';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+
+const expectVideo = (input: string, startTime: number | null = null, endTime: number | null = null) => {
+  expect(parseYouTubeUrl(input)).toEqual({ ok: true, videoId: VIDEO_ID, startTime, endTime });
+};
+
+const expectError = (input: string, error: string | RegExp) => {
+  const result = parseYouTubeUrl(input);
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.error).toMatch(error);
+  }
+};
+
+describe('parseYouTubeUrl', () => {
+  it('parses watch links, with or without the protocol', () => {
+    expectVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}`);
+    expectVideo(`http://youtube.com/watch?v=${VIDEO_ID}&list=PL123&index=2`);
+    expectVideo(`m.youtube.com/watch?v=${VIDEO_ID}`);
+    expectVideo(`  www.youtube.com/watch?feature=share&v=${VIDEO_ID}  `);
+  });
+
+  it('parses youtu.be links', () => {
+    expectVideo(`https://youtu.be/${VIDEO_ID}`);
+    expectVideo(`youtu.be/${VIDEO_ID}?si=abc123`);
+  });
+
+  it('parses embed, shorts and live links', () => {
+    expectVideo(`https://www.youtube.com/embed/${VIDEO_ID}`);
+    expectVideo(`https://www.youtube-nocookie.com/embed/${VIDEO_ID}?start=10`, 10);
+    expectVideo(`https://www.youtube.com/shorts/${VIDEO_ID}`);
+    expectVideo(`https://youtube.com/shorts/${VIDEO_ID}?feature=share`);
+    expectVideo(`https://www.youtube.com/live/${VIDEO_ID}?si=abc`);
+  });
+
+  it('parses music.youtube.com links', () => {
+    expectVideo(`https://music.youtube.com/watch?v=${VIDEO_ID}&list=RDAMVM${VIDEO_ID}`);
+  });
+
+  it('accepts a bare video ID', () => {
+    expectVideo(VIDEO_ID);
+    expectVideo(`  ${VIDEO_ID}\n`);
+  });
+
+  it('reads start times from t= in seconds or units', () => {
+    expectVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}&t=90`, 90);
+    expectVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}&t=90s`, 90);
+    expectVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}&t=1m30s`, 90);
+    expectVideo(`https://youtu.be/${VIDEO_ID}?t=1h2m3s`, 3723);
+  });
+
+  it('reads start= and end=', () => {
+    expectVideo(`https://www.youtube.com/embed/${VIDEO_ID}?start=30&end=45`, 30, 45);
+    expectVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}&end=1m`, null, 60);
+  });
+
+  it('prefers t= over start=', () => {
+    expectVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}&t=20&start=30`, 20);
+  });
+
+  it('reads times from the fragment', () => {
+    expectVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}#t=1m30s`, 90);
+    expectVideo(`https://youtu.be/${VIDEO_ID}#t=15`, 15);
+  });
+
+  it('ignores times it cannot read', () => {
+    expectVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}&t=soon`);
+    expectVideo(`https://www.youtube.com/watch?v=${VIDEO_ID}&t=%2B15`);
+  });
+
+  it('rejects playlist links', () => {
+    expectError('https://www.youtube.com/playlist?list=PL590L5WQmH8fJ54F369BLDSqIwcs-TCfs', /Playlist links are not supported/);
+  });
+
+  it('rejects links that are not YouTube links', () => {
+    expectError(`https://vimeo.com/${VIDEO_ID}`, 'This is not a YouTube link');
+    expectError(`https://notyoutube.com/watch?v=${VIDEO_ID}`, 'This is not a YouTube link');
+  });
+
+  it('explains what is missing or wrong', () => {
+    expectError('', 'Please enter a YouTube URL');
+    expectError('https://www.youtube.com/watch?list=PL123', /missing the video ID/);
+    expectError('https://youtu.be/', /missing the video ID/);
+    expectError('https://www.youtube.com/shorts/', /missing the video ID/);
+    expectError('https://www.youtube.com/watch?v=tooshort', /not a valid YouTube video ID/);
+    expectError('https://www.youtube.com/@somechannel', /does not point to a video/);
+    expectError('not a url at all', 'This does not look like a URL');
+  });
+});
+
+describe('parseUrlTime', () => {
+  it('parses seconds and unit times', () => {
+    expect(parseUrlTime('42')).toBe(42);
+    expect(parseUrlTime('2m')).toBe(120);
+    expect(parseUrlTime('1h')).toBe(3600);
+  });
+
+  it('returns null for missing, relative or unreadable times', () => {
+    expect(parseUrlTime(null)).toBeNull();
+    expect(parseUrlTime('')).toBeNull();
+    expect(parseUrlTime('+15')).toBeNull();
+    expect(parseUrlTime('abc')).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { parseTimeInput } from './timeUtils';
+
+/**
+ * A YouTube link broken down into the video and any times embedded in it
+ */
+export interface ParsedYouTubeUrl {
+  ok: true;
+  videoId: string;
+  startTime: number | null;
+  endTime: number | null;
+}
+
+/**
+ * Why a link couldn't be used, in words suitable for showing to the user
+ */
+export interface YouTubeUrlError {
+  ok: false;
+  error: string;
+}
+
+// Video IDs are always 11 characters from the URL-safe base64 alphabet
+const VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+
+// Hosts that serve the regular watch page and its path variants
+const YOUTUBE_HOSTS = [
+  'youtube.com',
+  'www.youtube.com',
+  'm.youtube.com',
+  'music.youtube.com',
+  'gaming.youtube.com',
+  'youtube-nocookie.com',
+  'www.youtube-nocookie.com'
+];
+
+const SHORT_HOSTS = ['youtu.be', 'www.youtu.be'];
+
+// Path prefixes that are followed directly by the video ID
+const ID_PATH_PREFIXES = ['embed', 'v', 'e', 'shorts', 'live'];
+
+/**
+ * Parses a time as used in YouTube links: plain seconds ("90"), or units ("1h2m3s", "1m30s", "90s")
+ */
+export const parseUrlTime = (value: string | null): number | null => {
+  // Relative times have no meaning in a link
+  if (!value || value.trim().startsWith('+')) return null;
+
+  const result = parseTimeInput(value);
+  return result.ok ? result.seconds : null;
+};
+
+/**
+ * Finds the video ID in a parsed YouTube URL, or explains why there isn't one
+ */
+const getVideoIdFromUrl = (url: URL): string | YouTubeUrlError => {
+  const host = url.hostname.toLowerCase();
+  const pathParts = url.pathname.split('/').filter(Boolean);
+
+  if (SHORT_HOSTS.includes(host)) {
+    return pathParts[0] || { ok: false, error: 'This youtu.be link is missing the video ID' };
+  }
+
+  if (!YOUTUBE_HOSTS.includes(host)) {
+    return { ok: false, error: 'This is not a YouTube link' };
+  }
+
+  if (pathParts[0] === 'watch') {
+    return url.searchParams.get('v') || { ok: false, error: 'This watch link is missing the video ID (the v= part)' };
+  }
+
+  if (ID_PATH_PREFIXES.includes(pathParts[0])) {
+    return pathParts[1] || { ok: false, error: `This /${pathParts[0]}/ link is missing the video ID` };
+  }
+
+  if (pathParts[0] === 'playlist') {
+    return { ok: false, error: 'Playlist links are not supported. Open a video from the playlist and copy its link' };
+  }
+
+  return { ok: false, error: 'This YouTube link does not point to a video' };
+};
+
+/**
+ * Parses any common form of YouTube video link: watch, youtu.be, embed, shorts, live and
+ * music links, with or without the protocol. Also picks up start times from t= or start=
+ * and end times from end=.
+ */
+export const parseYouTubeUrl = (input: string): ParsedYouTubeUrl | YouTubeUrlError => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { ok: false, error: 'Please enter a YouTube URL' };
+  }
+
+  // A bare video ID
+  if (VIDEO_ID_PATTERN.test(trimmed)) {
+    return { ok: true, videoId: trimmed, startTime: null, endTime: null };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return { ok: false, error: 'This does not look like a URL' };
+  }
+
+  const videoId = getVideoIdFromUrl(url);
+  if (typeof videoId !== 'string') {
+    return videoId;
+  }
+  if (!VIDEO_ID_PATTERN.test(videoId)) {
+    return { ok: false, error: `"${videoId}" is not a valid YouTube video ID` };
+  }
+
+  // Times may also appear in the fragment, as in youtube.com/watch?v=...#t=1m30s
+  const hashParams = new URLSearchParams(url.hash.replace(/^#/, ''));
+  const getParam = (name: string) => url.searchParams.get(name) ?? hashParams.get(name);
+
+  return {
+    ok: true,
+    videoId,
+    startTime: parseUrlTime(getParam('t')) ?? parseUrlTime(getParam('start')),
+    endTime: parseUrlTime(getParam('end'))
+  };
+};
\ No newline at end of file
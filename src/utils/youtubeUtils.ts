@@ -1,8 +1,37 @@
+import { Video } from '../types';
+import { cacheVideoInfo, getCachedVideoInfo } from './videoInfoCacheUtils';
+
+// Title shown for entries whose details couldn't be fetched
+export const UNKNOWN_TITLE = 'Unknown Title';
+
 /**
- * Fetches YouTube video information using the oEmbed API
+ * The title to show for an entry: the user's own label, or the one from YouTube
+ */
+export const getVideoTitle = (video: Video): string => video.customTitle || video.title;
+
+/**
+ * Whether an entry's details are still missing because fetching them failed
+ */
+export const needsVideoInfo = (video: Video): boolean => video.title === UNKNOWN_TITLE;
+
+/**
+ * What oEmbed tells us about a video. The duration isn't included; the player reports it
+ */
+export interface VideoInfo {
+  title: string;
+  author?: string;
+  thumbnailUrl?: string;
+}
+
+/**
+ * Looks up a video's details, from the cache when they were fetched recently.
+ * Returns null if YouTube couldn't be reached, so callers can try again later.
  * This uses YouTube's oEmbed API which doesn't require an API key
  */
-export const fetchVideoInfo = async (videoId: string): Promise<{ title: string }> => {
+export const lookupVideoInfo = async (videoId: string): Promise<VideoInfo | null> => {
+  const cached = getCachedVideoInfo(videoId);
+  if (cached) return cached;
+
   try {
     const response = await fetch(`https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`);
     
@@ -11,13 +40,54 @@ export const fetchVideoInfo = async (videoId: string): Promise<{ title: string }
     }
     
     const data = await response.json();
-    return {
-      title: data.title || 'Unknown Title'
+    if (typeof data.title !== 'string' || !data.title) {
+      throw new Error('Video info has no title');
+    }
+
+    const info: VideoInfo = {
+      title: data.title,
+      author: typeof data.author_name === 'string' && data.author_name ? data.author_name : undefined,
+      thumbnailUrl: typeof data.thumbnail_url === 'string' && data.thumbnail_url ? data.thumbnail_url : undefined
     };
+    cacheVideoInfo(videoId, info);
+    return info;
   } catch (error) {
     console.error('Error fetching video info:', error);
-    return {
-      title: 'Unknown Title'
-    };
+    return null;
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Fetches YouTube video information, falling back to UNKNOWN_TITLE if it can't be reached
+ */
+export const fetchVideoInfo = async (videoId: string): Promise<VideoInfo> =>
+  (await lookupVideoInfo(videoId)) || { title: UNKNOWN_TITLE };
+
+/**
+ * Fetches info for several videos, running at most `concurrency` requests at a time.
+ * Results are returned in the same order as the IDs.
+ */
+export const fetchVideoInfoBatch = async (
+  videoIds: string[],
+  concurrency: number = 3
+): Promise<VideoInfo[]> => {
+  const results: VideoInfo[] = new Array(videoIds.length);
+  let nextIndex = 0;
+
+  // Each worker keeps taking the next ID until none are left
+  const worker = async () => {
+    while (nextIndex < videoIds.length) {
+      const index = nextIndex++;
+      results[index] = await fetchVideoInfo(videoIds[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, videoIds.length) }, worker));
+  return results;
+};
+
+/**
+ * URL of a video's thumbnail image (480x360)
+ */
+export const getThumbnailUrl = (videoId: string): string =>
+  `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;